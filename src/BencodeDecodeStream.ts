@@ -0,0 +1,59 @@
+import { BencodeDecodedValue, IBencodecOptions } from './types';
+import { BencodeStreamDecoder } from './BencodeStreamDecoder';
+
+/**
+ * WHATWG `TransformStream` that decodes a byte stream of concatenated bencode values.
+ *
+ * Each written chunk is fed to a {@link BencodeStreamDecoder}, and every completed
+ * top-level value is enqueued on the readable side as soon as it is available.
+ * Backpressure is handled by the underlying `TransformStream`: chunks are not
+ * transformed while the readable side is full.
+ *
+ * @example
+ * ```typescript
+ * import { BencodeDecodeStream } from 'bencodec';
+ *
+ * const response = await fetch(url);
+ * const values = response.body!.pipeThrough(new BencodeDecodeStream({ stringify: true }));
+ *
+ * for await (const value of values) {
+ *   console.log(value);
+ * }
+ * ```
+ *
+ * @remarks
+ * Malformed data errors both sides of the stream with a {@link BencodeDecodeError} whose
+ * `position` is the absolute offset in the byte stream. A stream that ends inside a value
+ * errors with code `UNEXPECTED_END`.
+ */
+export class BencodeDecodeStream extends TransformStream<Uint8Array | string, BencodeDecodedValue> {
+
+	/**
+	 * Creates a new BencodeDecodeStream instance.
+	 *
+	 * @param options - Configuration options applied to every decoded value.
+	 * @param writableStrategy - Queuing strategy for the written byte chunks.
+	 * @param readableStrategy - Queuing strategy for the decoded values.
+	 */
+	public constructor(
+		options?: IBencodecOptions,
+		writableStrategy?: QueuingStrategy<Uint8Array | string>,
+		readableStrategy?: QueuingStrategy<BencodeDecodedValue>,
+	) {
+		const decoder = new BencodeStreamDecoder(options);
+
+		super({
+			transform(chunk, controller) {
+				for (const value of decoder.push(chunk)) {
+					controller.enqueue(value);
+				}
+			},
+			flush(controller) {
+				for (const value of decoder.end()) {
+					controller.enqueue(value);
+				}
+			},
+		}, writableStrategy, readableStrategy);
+	}
+
+}
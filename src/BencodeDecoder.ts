@@ -1,6 +1,86 @@
-import { BencodeDecodedDictionary, BencodeDecodedList, BencodeDecodedValue, FLAG, IBencodecOptions } from './types';
+import {
+	BencodeDecodedDictionary,
+	BencodeDecodedList,
+	BencodeDecodedMap,
+	BencodeDecodedValue,
+	FLAG,
+	IBencodecOptions,
+	IBencodeSpansResult,
+	IBencodeValidationIssue,
+	IBencodeValidationReport,
+} from './types';
 import { BencodeDecodeError, BencodeErrorCode } from './errors';
-import { Bytes } from './bytes';
+import { Bytes, ByteEncoding } from './bytes';
+import { BencodeSpans, IBencodeSpanEntry } from './BencodeSpans';
+import { BencodeIndex } from './BencodeIndex';
+
+/**
+ * A list being decoded.
+ */
+interface IListFrame {
+	type: 'list';
+
+	/** Index node or span of the list, `-1` if neither is recorded */
+	mark: number;
+
+	/** Span of the enclosing container, restored when the list ends */
+	parentSpan: number;
+
+	/** Number of items read so far */
+	count: number;
+
+	/** Decoded items */
+	items: BencodeDecodedList;
+}
+
+/**
+ * A dictionary being decoded, with the key of the value being decoded.
+ */
+interface IDictionaryFrame {
+	type: 'dictionary';
+
+	/** Index node or span of the dictionary, `-1` if neither is recorded */
+	mark: number;
+
+	/** Span of the enclosing container, restored when the dictionary ends */
+	parentSpan: number;
+
+	/** Number of entries read so far */
+	count: number;
+
+	/** Decoded entries, unless `dictionaryType: 'map'` */
+	object: BencodeDecodedDictionary;
+
+	/** Decoded entries if `dictionaryType: 'map'`, `null` otherwise */
+	map: BencodeDecodedMap | null;
+
+	/** Whether entries are identified by raw key bytes instead of key strings */
+	isRawKeyed: boolean;
+
+	/** First key of every entry by its identity in the result, `null` if not needed */
+	seen: Map<string, Uint8Array | string> | null;
+
+	/** Values of repeated keys by key identity, for `duplicateKeys: 'collect'` */
+	collected: Map<string, BencodeDecodedList>;
+
+	/** Bytes of the previous key, for the strict order check */
+	prevKey: Uint8Array | null;
+
+	/** Current key as decoded */
+	key: Uint8Array | string;
+
+	/** Current key as a property name */
+	name: string;
+
+	/** Identity of the current key in the result */
+	id: string;
+
+	/** Key of the first entry with the current key, `undefined` if the key is new */
+	firstKey: Uint8Array | string | undefined;
+
+	/** Whether the current key can tamper with object prototypes */
+	isUnsafe: boolean;
+}
 
 /**
  * Stateful decoder for bencode-formatted data.
@@ -48,9 +128,24 @@ import { Bytes } from './bytes';
  * **Non-standard extensions handled:**
  * - Plus signs in integers are silently ignored (`i+42e` → `42`)
  * - Decimal points cause truncation (`i3.14e` → `3`)
+ *
+ * **Large integers:**
+ * Integers are decoded as `number` by default, and integers beyond `Number.MAX_SAFE_INTEGER`
+ * are rejected with `INTEGER_OVERFLOW` instead of losing precision. Use `integers: 'bigint'`
+ * or `integers: 'auto'` to decode them losslessly as `bigint`.
+ *
+ * **Nesting:**
+ * Lists and dictionaries are decoded with an explicit stack rather than recursion, so deeply
+ * nested input cannot overflow the call stack. Use `maxDepth` to bound the memory it takes.
  */
 export class BencodeDecoder {
 
+	/** Digit limit for integers when `maxIntegerDigits` is not set, as parsing huge `bigint`s is quadratic */
+	public static readonly DEFAULT_MAX_INTEGER_DIGITS = 4300;
+
+	/** Dictionary keys that can tamper with object prototypes when assigned */
+	public static readonly UNSAFE_KEYS: ReadonlySet<string> = new Set([ '__proto__', 'constructor', 'prototype' ]);
+
 	/**
 	 * Checks if a byte value represents an ASCII digit (0-9).
 	 *
@@ -67,19 +162,57 @@ export class BencodeDecoder {
 	/** Current nesting depth for lists and dictionaries */
 	private _currentDepth: number;
 
+	/** Number of values read since the current top-level value started, for `maxNodes` */
+	private _nodeCount: number;
+
 	/** The buffer containing bencode data to decode */
 	private readonly _buffer: Uint8Array;
 
 	/** Decoding options */
 	private readonly _options: IBencodecOptions;
 
+	/** Recorded spans while {@link decodeWithSpans} runs, `null` otherwise */
+	private _spans: Array<IBencodeSpanEntry> | null;
+
+	/** Index of the span of the list or dictionary being decoded, or `-1` at the root */
+	private _parentSpan: number;
+
+	/** List index or dictionary key of the next value, used for span paths */
+	private _key: string | number;
+
+	/**
+	 * List indices and dictionary keys of the values being read, by depth. Keys of skipped
+	 * values are kept as bytes and converted only if an error is reported.
+	 */
+	private readonly _path: Array<string | number | Uint8Array>;
+
+	/** Path of the data within its document, prefixed to paths matched by `stringify` */
+	private readonly _basePath: ReadonlyArray<string | number>;
+
+	/** Split `stringify` path patterns, `null` if `stringify` is not a list */
+	private readonly _stringifyPatterns: Array<Array<string>> | null;
+
+	/** Index being built while {@link index} runs, `null` otherwise */
+	private _nodes: BencodeIndex | null;
+
+	/** Problems found while {@link validate} runs, `null` otherwise */
+	private _issues: Array<IBencodeValidationIssue> | null;
+
+	/** Absolute position of the first buffer byte, added to error positions */
+	private readonly _offset: number;
+
 	/**
 	 * Creates a new BencodeDecoder instance.
 	 *
 	 * @param data - The bencode data to decode. Strings are converted to Uint8Array internally.
 	 * @param options - Configuration options for decoding behavior.
+	 * @param offset - Absolute position of `data` within a larger stream. Error positions
+	 *   are reported relative to the stream rather than to `data` (default: `0`).
+	 * @param basePath - Path of `data` within a larger document, so that `stringify` patterns
+	 *   and predicates match paths from the document root (default: `[]`).
 	 *
 	 * @throws {BencodeDecodeError} With code `EMPTY_INPUT` if data is empty or falsy.
+	 * @throws {BencodeDecodeError} With code `MAX_TOTAL_BYTES_EXCEEDED` if data exceeds `maxTotalBytes`.
 	 *
 	 * @example
 	 * ```typescript
@@ -93,17 +226,37 @@ export class BencodeDecoder {
 	 * const decoder = new BencodeDecoder(data, { stringify: true, strict: true });
 	 * ```
 	 */
-	public constructor(data: Uint8Array | string, options?: IBencodecOptions) {
+	public constructor(data: Uint8Array | string, options?: IBencodecOptions, offset = 0, basePath: ReadonlyArray<string | number> = []) {
 		if (!data) {
 			throw new BencodeDecodeError(BencodeErrorCode.EMPTY_INPUT, 'Nothing to decode');
 		}
 
 		this._index = 0;
+		this._offset = offset;
 		this._currentDepth = 0;
+		this._nodeCount = 0;
 		this._options = options || { };
+		this._spans = null;
+		this._parentSpan = -1;
+		this._key = 0;
+		this._nodes = null;
+		this._issues = null;
+		this._path = [];
+		this._basePath = basePath;
+		this._stringifyPatterns = Array.isArray(this._options.stringify)
+			? this._options.stringify.map(pattern => pattern.split('.'))
+			: null;
 		this._buffer = typeof data === 'string'
 			? Bytes.fromString(data)
 			: data;
+
+		if (this._options.maxTotalBytes && this._buffer.length > this._options.maxTotalBytes) {
+			throw new BencodeDecodeError(
+				BencodeErrorCode.MAX_TOTAL_BYTES_EXCEEDED,
+				`Input size ${this._buffer.length} exceeds maximum ${this._options.maxTotalBytes}`,
+				this._options.maxTotalBytes,
+			);
+		}
 	}
 
 	/**
@@ -152,19 +305,25 @@ export class BencodeDecoder {
 	 * Can be called multiple times to decode concatenated bencode values.
 	 *
 	 * @returns The decoded JavaScript value:
-	 *   - Bencode integers → `number`
+	 *   - Bencode integers → `number` (default) or `bigint` (see the `integers` option)
 	 *   - Bencode strings → `Uint8Array` (default) or `string` (if `stringify: true`)
 	 *   - Bencode lists → `BencodeDecodedList`
-	 *   - Bencode dictionaries → `BencodeDecodedDictionary`
+	 *   - Bencode dictionaries → `BencodeDecodedDictionary` (default) or `BencodeDecodedMap`
+	 *     (if `dictionaryType: 'map'`)
 	 *
 	 * @throws {BencodeDecodeError} With code `UNEXPECTED_END` if the buffer ends unexpectedly.
 	 * @throws {BencodeDecodeError} With code `INVALID_FORMAT` if an invalid type marker is found.
+	 * @throws {BencodeDecodeError} With code `INVALID_KEY` if a dictionary key is not a string.
 	 * @throws {BencodeDecodeError} With code `LEADING_ZEROS` if an integer has leading zeros.
 	 * @throws {BencodeDecodeError} With code `NEGATIVE_ZERO` if negative zero is encountered.
+	 * @throws {BencodeDecodeError} With code `INTEGER_OVERFLOW` if an integer or string length exceeds
+	 *   `Number.MAX_SAFE_INTEGER` and cannot be represented exactly.
 	 * @throws {BencodeDecodeError} With code `UNSORTED_KEYS` if `strict: true` and dictionary
 	 *   keys are not in lexicographic order.
 	 * @throws {BencodeDecodeError} With code `MAX_SIZE_EXCEEDED` if a string exceeds `maxStringLength`.
 	 * @throws {BencodeDecodeError} With code `MAX_DEPTH_EXCEEDED` if nesting exceeds `maxDepth`.
+	 * @throws {BencodeDecodeError} With code `MAX_LIST_LENGTH_EXCEEDED`, `MAX_DICT_KEYS_EXCEEDED`,
+	 *   `MAX_NODES_EXCEEDED` or `MAX_INTEGER_DIGITS_EXCEEDED` if the corresponding limit is exceeded.
 	 *
 	 * @example
 	 * ```typescript
@@ -179,27 +338,489 @@ export class BencodeDecoder {
 	 * ```
 	 */
 	public decode(): BencodeDecodedValue {
-		if (this._isEOF()) {
-			throw this._decodeError(BencodeErrorCode.UNEXPECTED_END, 'Unexpected end of data');
+		return this._decodeValue();
+	}
+
+	/**
+	 * Decodes the next bencode value and records the byte span of every value in it.
+	 *
+	 * @returns The decoded value and its spans, with offsets relative to the input
+	 *   (plus the stream offset given to the constructor).
+	 *
+	 * @throws {BencodeDecodeError} Any error {@link decode} throws.
+	 *
+	 * @example
+	 * ```typescript
+	 * const decoder = new BencodeDecoder('d4:infod6:lengthi1eee');
+	 * const { value, spans } = decoder.decodeWithSpans();
+	 * spans.get(['info']);  // [7, 20]
+	 * ```
+	 */
+	public decodeWithSpans(): IBencodeSpansResult {
+		const spans: Array<IBencodeSpanEntry> = [];
+		this._spans = spans;
+		this._parentSpan = -1;
+
+		try {
+			return { value: this.decode(), spans: new BencodeSpans(spans, this._options.duplicateKeys) };
+		}
+		finally {
+			this._spans = null;
 		}
+	}
+
+	/**
+	 * Checks the next bencode value and any data after it, collecting problems instead of throwing.
+	 *
+	 * Everything `strict: true` rejects is reported, as are repeated keys and keys that are
+	 * not valid UTF-8, integers that `integers` rejects and keys that `unsafeKeys: 'error'`
+	 * rejects. Reading continues after problems that leave the data readable, the way
+	 * decoding without `strict` reads it; other problems end the check. Lists and dictionaries
+	 * are not populated, and options that only shape decoded values have no effect.
+	 *
+	 * @returns The problems found, each with its error code, position and path.
+	 *
+	 * @example
+	 * ```typescript
+	 * const decoder = new BencodeDecoder('d1:bi01e1:ai1ee');
+	 * decoder.validate().issues.map(issue => issue.code);  // ['LEADING_ZEROS', 'UNSORTED_KEYS']
+	 * ```
+	 */
+	public validate(): IBencodeValidationReport {
+		const issues: Array<IBencodeValidationIssue> = [];
+		this._issues = issues;
 
-		if (BencodeDecoder._isInteger(this._currentChar())) {
-			return this._decodeString();
+		try {
+			this.decode();
+			this.checkEnd();
+		}
+		catch (error) {
+			if (!(error instanceof BencodeDecodeError)) {
+				throw error;
+			}
+			this._recover(error);
+		}
+		finally {
+			this._issues = null;
 		}
 
-		if (this._currentChar() === FLAG.INTEGER) {
-			return this._decodeInteger();
+		return { valid: issues.length === 0, issues };
+	}
+
+	/**
+	 * Reports a problem. While {@link validate} runs, the problem is recorded and the caller
+	 * continues reading, otherwise it is thrown.
+	 *
+	 * @param error - The problem, positioned in the input.
+	 * @throws {BencodeDecodeError} `error`, unless {@link validate} runs.
+	 */
+	private _recover(error: BencodeDecodeError): void {
+		if (!this._issues) {
+			throw error;
 		}
 
-		if (this._currentChar() === FLAG.LIST) {
-			return this._decodeList();
+		this._issues.push({
+			code: error.code,
+			message: error.message,
+			position: error.position!,
+			path: error.path!,
+		});
+	}
+
+	/**
+	 * Checks that no data follows the values decoded so far.
+	 *
+	 * @throws {BencodeDecodeError} With code `TRAILING_DATA` if data remains, positioned at
+	 *   its first byte.
+	 *
+	 * @example
+	 * ```typescript
+	 * const decoder = new BencodeDecoder('i42eextra');
+	 * decoder.decode();    // 42
+	 * decoder.checkEnd();  // throws TRAILING_DATA at position 4
+	 * ```
+	 */
+	public checkEnd(): void {
+		if (this.hasRemainingData()) {
+			throw this._decodeError(BencodeErrorCode.TRAILING_DATA, 'Invalid bencode: unexpected data after valid bencode', 'end of data');
 		}
+	}
+
+	/**
+	 * Advances past the next bencode value without decoding it.
+	 *
+	 * Strings are skipped by their length prefix without reading their content. Integers
+	 * and string lengths are validated as in {@link decode}, but dictionary key order is not.
+	 *
+	 * @returns The raw bytes of the skipped value, as a view into the input.
+	 *
+	 * @throws {BencodeDecodeError} With code `UNEXPECTED_END` if the buffer ends unexpectedly.
+	 * @throws {BencodeDecodeError} With code `INVALID_FORMAT` if an invalid type marker is found.
+	 * @throws {BencodeDecodeError} With code `INVALID_KEY` if a dictionary key is not a string.
+	 * @throws {BencodeDecodeError} Any other error {@link decode} throws for integers, string
+	 *   lengths and nesting.
+	 *
+	 * @example
+	 * ```typescript
+	 * const decoder = new BencodeDecoder('li1ei2eei3e');
+	 * decoder.skip();    // Uint8Array 'li1ei2ee'
+	 * decoder.decode();  // 3
+	 * ```
+	 */
+	public skip(): Uint8Array {
+		const start = this._index;
+		this._skipValue();
+
+		return this._buffer.subarray(start, this._index);
+	}
 
-		if (this._currentChar() === FLAG.DICTIONARY) {
-			return this._decodeDictionary();
+	/**
+	 * Moves to the value at `path` within the next bencode value, skipping everything before it.
+	 *
+	 * Each segment selects a list item by index or a dictionary value by key. String keys are
+	 * compared as `decode()` converts keys: with `encoding` if `stringify` is set and not
+	 * `'auto'`, as UTF-8 otherwise. If a dictionary repeats a key, its first value is selected
+	 * with `duplicateKeys: 'first'` and its last value otherwise, so every dictionary on the
+	 * path is read to its end unless `'first'` is set.
+	 *
+	 * @param path - List indices and dictionary keys leading to the value.
+	 *
+	 * @returns `true` if the decoder is now at the value, `false` if there is no value at `path`.
+	 *   After `false` the position is unspecified.
+	 *
+	 * @throws {BencodeDecodeError} Any error {@link skip} throws for the skipped data.
+	 * @throws {BencodeDecodeError} With code `DUPLICATE_KEY` if `duplicateKeys: 'error'` and a
+	 *   dictionary on the path repeats a key.
+	 *
+	 * @example
+	 * ```typescript
+	 * const decoder = new BencodeDecoder('d4:infod6:lengthi42eee');
+	 * if (decoder.seek(['info', 'length'])) {
+	 *   decoder.decode();  // 42
+	 * }
+	 * ```
+	 */
+	public seek(path: Array<string | number | Uint8Array>): boolean {
+		const encoding = this._options.stringify && this._options.stringify !== 'auto' ? this._options.encoding || 'utf8' : 'utf8';
+
+		for (const key of path) {
+			const found = typeof key === 'number'
+				? this._seekItem(key)
+				: this._seekKey(typeof key === 'string' ? Bytes.fromString(key, encoding) : key, encoding);
+
+			if (!found) {
+				return false;
+			}
 		}
 
-		throw this._decodeError(BencodeErrorCode.INVALID_FORMAT, 'Invalid bencode data');
+		return true;
+	}
+
+	/**
+	 * Moves to an item of the list at the current position.
+	 *
+	 * @param index - Index of the item.
+	 * @returns `true` if the decoder is now at the item.
+	 */
+	private _seekItem(index: number): boolean {
+		if (this._currentChar() !== FLAG.LIST) {
+			return false;
+		}
+
+		this._enterContainer();
+
+		for (let i = 0; i < index; i++) {
+			this._clearKey();
+
+			if (this._isContainerEnd('list')) {
+				return false;
+			}
+
+			this._checkContainerSize(i + 1, 'list');
+			this._setKey(i);
+			this._skipValue();
+		}
+
+		this._clearKey();
+
+		if (this._isContainerEnd('list')) {
+			return false;
+		}
+
+		this._setKey(index);
+
+		return true;
+	}
+
+	/**
+	 * Moves to the value of a key of the dictionary at the current position.
+	 *
+	 * @param key - The key.
+	 * @param encoding - The encoding of keys, to record the key in the path of the value.
+	 * @returns `true` if the decoder is now at the value.
+	 */
+	private _seekKey(key: Uint8Array, encoding: ByteEncoding): boolean {
+		if (this._currentChar() !== FLAG.DICTIONARY) {
+			return false;
+		}
+
+		this._enterContainer();
+		const duplicateKeys = this._options.duplicateKeys;
+		const isRawKeyed = this._options.dictionaryType === 'map' && (!this._options.stringify || this._options.stringify === 'auto');
+		// keys read so far, as decode() compares them, if repeated keys are rejected
+		const seen = duplicateKeys === 'error' ? new Set<string>() : null;
+		let found = -1;
+		let entries = 0;
+		this._clearKey();
+
+		while (!this._isContainerEnd('dictionary')) {
+			this._checkContainerSize(++entries, 'dictionary');
+			const keyPosition = this._offset + this._index;
+			const start = this._skipKey();
+			const keyBytes = this._buffer.subarray(start, this._index);
+			this._setKey(keyBytes);
+
+			if (seen) {
+				const id = Bytes.toString(keyBytes, isRawKeyed ? 'latin1' : encoding);
+
+				if (seen.has(id)) {
+					const name = Bytes.toString(keyBytes, encoding);
+					throw this._error(BencodeErrorCode.DUPLICATE_KEY, `Invalid bencode: duplicate dictionary key '${name}' at position ${keyPosition}`, keyPosition);
+				}
+
+				seen.add(id);
+			}
+
+			if (this._equals(start, key)) {
+				found = this._index;
+
+				if (duplicateKeys === 'first') {
+					break;
+				}
+			}
+
+			this._skipValue();
+			this._clearKey();
+		}
+
+		if (found === -1) {
+			return false;
+		}
+
+		this._index = found;
+		this._setKey(Bytes.toString(key, encoding));
+
+		return true;
+	}
+
+	/**
+	 * Compares the bytes from `start` to the current position with `bytes`, without copying.
+	 *
+	 * @param start - Position of the first byte to compare.
+	 * @param bytes - The expected bytes.
+	 * @returns `true` if the bytes are equal.
+	 */
+	private _equals(start: number, bytes: Uint8Array): boolean {
+		if (this._index - start !== bytes.length) {
+			return false;
+		}
+
+		for (let i = 0; i < bytes.length; i++) {
+			if (this._buffer[start + i] !== bytes[i]) {
+				return false;
+			}
+		}
+
+		return true;
+	}
+
+	/**
+	 * Advances past the next value, including all values nested in it.
+	 *
+	 * Nested values are skipped iteratively, so nesting depth is only limited by `maxDepth`.
+	 */
+	private _skipValue(): void {
+		// open containers, with the number of items or entries read so far
+		const containers: Array<{ type: 'list' | 'dictionary'; count: number }> = [];
+		this._path.length = this._currentDepth;
+
+		for (;;) {
+			if (this._isEOF()) {
+				throw this._decodeError(BencodeErrorCode.UNEXPECTED_END, 'Unexpected end of data', 'value');
+			}
+
+			this._countNode();
+
+			if (BencodeDecoder._isInteger(this._currentChar())) {
+				this._skipString();
+			}
+			else if (this._currentChar() === FLAG.INTEGER) {
+				this._decodeInteger();
+			}
+			else if (this._currentChar() === FLAG.LIST || this._currentChar() === FLAG.DICTIONARY) {
+				containers.push({ type: this._currentChar() === FLAG.LIST ? 'list' : 'dictionary', count: 0 });
+				this._enterContainer();
+			}
+			else {
+				throw this._decodeError(BencodeErrorCode.INVALID_FORMAT, 'Invalid bencode data', '\'i\', \'l\', \'d\' or a digit');
+			}
+
+			let container = containers[containers.length - 1];
+
+			while (container) {
+				this._clearKey();
+
+				if (!this._isContainerEnd(container.type)) {
+					break;
+				}
+
+				this._leaveContainer();
+				containers.pop();
+				container = containers[containers.length - 1];
+			}
+
+			if (!container) {
+				return;
+			}
+
+			this._checkContainerSize(++container.count, container.type);
+
+			if (container.type === 'dictionary') {
+				const start = this._skipKey();
+				this._setKey(this._buffer.subarray(start, this._index));
+			}
+			else {
+				this._setKey(container.count - 1);
+			}
+		}
+	}
+
+	/**
+	 * Validates the next bencode value and indexes its structure without building it.
+	 *
+	 * Lists and dictionaries are not populated, so memory use is bounded by the index.
+	 * Decoding options apply as in {@link decode}; construct the decoder with `copy: false`
+	 * so that strings are not copied either.
+	 *
+	 * @returns The offsets of the value, its nested values and dictionary keys.
+	 *
+	 * @throws {BencodeDecodeError} Any error {@link decode} throws.
+	 *
+	 * @internal
+	 */
+	public index(): BencodeIndex {
+		const nodes = new BencodeIndex();
+		this._nodes = nodes;
+
+		try {
+			this.decode();
+			nodes.trim();
+
+			return nodes;
+		}
+		finally {
+			this._nodes = null;
+		}
+	}
+
+	/**
+	 * Starts recording the value at the current position, if spans or an index are recorded.
+	 *
+	 * @returns The index node or span of the value, `-1` if nothing is recorded.
+	 */
+	private _openMark(): number {
+		if (this._nodes) {
+			return this._nodes.open(this._offset + this._index);
+		}
+
+		if (!this._spans) {
+			return -1;
+		}
+
+		return this._spans.push({
+			key: this._key,
+			start: this._offset + this._index,
+			end: 0,
+			parent: this._parentSpan,
+		}) - 1;
+	}
+
+	/**
+	 * Records the end of a value started with {@link _openMark}.
+	 *
+	 * @param mark - The index node or span of the value.
+	 */
+	private _closeMark(mark: number): void {
+		if (this._nodes) {
+			this._nodes.close(mark, this._offset + this._index);
+		}
+		else if (this._spans) {
+			this._spans[mark].end = this._offset + this._index;
+		}
+	}
+
+	/**
+	 * Decodes the next value, including all values nested in it.
+	 *
+	 * Lists and dictionaries are kept on an explicit stack of frames instead of the call
+	 * stack, so nesting depth is only limited by `maxDepth` and memory.
+	 *
+	 * @returns The decoded value.
+	 */
+	private _decodeValue(): BencodeDecodedValue {
+		const stack: Array<IListFrame | IDictionaryFrame> = [];
+		this._path.length = this._currentDepth;
+
+		for (;;) {
+			if (this._isEOF()) {
+				throw this._decodeError(BencodeErrorCode.UNEXPECTED_END, 'Unexpected end of data', 'value');
+			}
+
+			this._countNode();
+			const mark = this._openMark();
+			let value: BencodeDecodedValue | undefined;
+
+			if (BencodeDecoder._isInteger(this._currentChar())) {
+				value = this._decodeString();
+			}
+			else if (this._currentChar() === FLAG.INTEGER) {
+				value = this._decodeInteger();
+			}
+			else if (this._currentChar() === FLAG.LIST) {
+				stack.push(this._openList(mark));
+			}
+			else if (this._currentChar() === FLAG.DICTIONARY) {
+				stack.push(this._openDictionary(mark));
+			}
+			else {
+				throw this._decodeError(BencodeErrorCode.INVALID_FORMAT, 'Invalid bencode data', '\'i\', \'l\', \'d\' or a digit');
+			}
+
+			if (value !== undefined) {
+				this._closeMark(mark);
+			}
+
+			// hand completed values to their containers until one expects another value
+			let frame = stack[stack.length - 1];
+
+			while (frame) {
+				if (value !== undefined) {
+					this._addChild(frame, value);
+				}
+
+				if (frame.type === 'list' ? this._nextItem(frame) : this._nextEntry(frame)) {
+					break;
+				}
+
+				value = this._closeContainer(frame);
+				stack.pop();
+				frame = stack[stack.length - 1];
+			}
+
+			if (!frame) {
+				return value!;
+			}
+		}
 	}
 
 	/**
@@ -248,18 +869,65 @@ export class BencodeDecoder {
 	 *
 	 * @param code - The error code identifying the error type.
 	 * @param message - The base error message.
+	 * @param expected - What was expected at the current position, if anything.
 	 * @returns A BencodeDecodeError with position information.
 	 */
-	private _decodeError(code: BencodeErrorCode, message: string): BencodeDecodeError {
+	private _decodeError(code: BencodeErrorCode, message: string, expected?: string): BencodeDecodeError {
+		const position = this._offset + this._index;
 		let fullMessage: string;
 		if (this._isEOF()) {
-			fullMessage = `${message} at position ${this._index}`;
+			fullMessage = `${message} at position ${position}`;
 		}
 		else {
-			fullMessage = `${message} at position ${this._index} (found ${BencodeDecoder._formatChar(this._currentChar())})`;
+			fullMessage = `${message} at position ${position} (found ${BencodeDecoder._formatChar(this._currentChar())})`;
 		}
 
-		return new BencodeDecodeError(code, fullMessage, this._index);
+		return this._error(code, fullMessage, position, expected);
+	}
+
+	/**
+	 * Creates a decode error with the path of the value being read and the bytes around `position`.
+	 *
+	 * @param code - The error code identifying the error type.
+	 * @param message - The full error message.
+	 * @param position - Absolute position of the error (default: the current position).
+	 * @param expected - What was expected at `position`, if anything.
+	 * @returns A BencodeDecodeError with position, path and snippet.
+	 */
+	private _error(code: BencodeErrorCode, message: string, position = this._offset + this._index, expected?: string): BencodeDecodeError {
+		const path = this._path.slice(0, this._currentDepth).map(key => {
+			return Bytes.isBytes(key) ? Bytes.toString(key) : key;
+		});
+
+		return new BencodeDecodeError(code, message, position, { path, expected, snippet: this._snippet(position - this._offset) });
+	}
+
+	/**
+	 * Formats up to 8 bytes before and after a buffer position as hex and ASCII.
+	 *
+	 * @param index - The buffer position, bracketed in the result (as `[]` at the end of the buffer).
+	 * @returns The hex bytes and their ASCII characters, separated by `|`.
+	 */
+	private _snippet(index: number): string {
+		const end = Math.min(this._buffer.length, index + 9);
+		const hex: Array<string> = [];
+		let text = '';
+
+		for (let i = Math.max(0, index - 8); i < end || i === index; i++) {
+			let byte = '';
+			let ascii = '';
+
+			if (i < this._buffer.length) {
+				const char = this._buffer[i];
+				byte = char.toString(16).padStart(2, '0');
+				ascii = char >= 0x20 && char <= 0x7e ? String.fromCharCode(char) : '.';
+			}
+
+			hex.push(i === index ? `[${byte}]` : byte);
+			text += i === index ? `[${ascii}]` : ascii;
+		}
+
+		return `${hex.join(' ')} | ${text}`;
 	}
 
 	/**
@@ -275,62 +943,193 @@ export class BencodeDecoder {
 	 * Decodes a bencode string value.
 	 *
 	 * Bencode strings are formatted as `<length>:<content>` where length is a
-	 * non-negative integer. The content is returned as a Uint8Array by default,
-	 * or as a string if the `stringify` option is enabled.
+	 * non-negative integer. The content is returned as a copied Uint8Array by default,
+	 * as a view into the input buffer if `copy: false`, or as a string if the
+	 * `stringify` option is enabled or selects the string, or with `stringify: 'auto'`
+	 * if the content is valid UTF-8.
 	 *
+	 * @param isKey - Whether the string is a dictionary key, which is converted with any `stringify`.
 	 * @returns The decoded string as a Uint8Array or string.
+	 * @throws {BencodeDecodeError} With code `INVALID_KEY` if a dictionary key is not a string.
+	 * @throws {BencodeDecodeError} With code `MAX_SIZE_EXCEEDED` if length exceeds `maxStringLength`.
+	 * @throws {BencodeDecodeError} With code `UNEXPECTED_END` if buffer doesn't contain enough bytes.
+	 */
+	private _decodeString(isKey = false): Uint8Array | string {
+		const start = isKey ? this._skipKey() : this._skipString();
+
+		if (this._options.stringify === 'auto') {
+			const text = Bytes.tryToString(this._buffer.subarray(start, this._index));
+
+			if (text !== null) {
+				return text;
+			}
+		}
+		else if (isKey ? this._options.stringify : this._isStringified()) {
+			return Bytes.toString(this._buffer.subarray(start, this._index), this._options.encoding || 'utf8');
+		}
+
+		const bytes = this._buffer.subarray(start, this._index);
+
+		// a Buffer's slice() is a view, so copy through the Uint8Array constructor
+		return this._options.copy === false ? bytes : new Uint8Array(bytes);
+	}
+
+	/**
+	 * Checks whether the string value being decoded is selected by the `stringify` option.
+	 *
+	 * @returns `true` if the string should be decoded as a JavaScript string.
+	 */
+	private _isStringified(): boolean {
+		const stringify = this._options.stringify;
+
+		if (typeof stringify === 'function') {
+			return stringify([ ...this._basePath, ...this._path.slice(0, this._currentDepth) ] as Array<string | number>);
+		}
+
+		if (!this._stringifyPatterns) {
+			return Boolean(stringify);
+		}
+
+		const length = this._basePath.length + this._currentDepth;
+
+		return this._stringifyPatterns.some(pattern => pattern.length === length
+			&& pattern.every((segment, i) => segment === '*' || segment === String(this._pathSegment(i))));
+	}
+
+	/**
+	 * Gets a segment of the path of the value being read, from the document root.
+	 *
+	 * Keys of the values being decoded or sought are always strings, so no conversion is needed.
+	 *
+	 * @param index - Position of the segment, counted from the document root.
+	 * @returns The list index or dictionary key.
+	 */
+	private _pathSegment(index: number): string | number {
+		return (index < this._basePath.length ? this._basePath[index] : this._path[index - this._basePath.length]) as string | number;
+	}
+
+	/**
+	 * Advances past a dictionary key without reading its content.
+	 *
+	 * @returns Position of the first content byte. The content ends at the new position.
+	 * @throws {BencodeDecodeError} With code `INVALID_KEY` if the next value is not a string.
+	 * @throws {BencodeDecodeError} Any error {@link _skipString} throws.
+	 */
+	private _skipKey(): number {
+		if (!BencodeDecoder._isInteger(this._currentChar())) {
+			throw this._decodeError(BencodeErrorCode.INVALID_KEY, 'Invalid bencode: dictionary key must be a string', 'string');
+		}
+
+		return this._skipString();
+	}
+
+	/**
+	 * Advances past a bencode string without reading its content.
+	 *
+	 * @returns Position of the first content byte. The content ends at the new position.
 	 * @throws {BencodeDecodeError} With code `MAX_SIZE_EXCEEDED` if length exceeds `maxStringLength`.
 	 * @throws {BencodeDecodeError} With code `UNEXPECTED_END` if buffer doesn't contain enough bytes.
 	 */
-	private _decodeString(): Uint8Array | string {
-		const length = this._decodeInteger();
+	private _skipString(): number {
+		const length = this._decodeStringLength();
 
 		if (this._options.maxStringLength && length > this._options.maxStringLength) {
-			throw new BencodeDecodeError(BencodeErrorCode.MAX_SIZE_EXCEEDED, `String length ${length} exceeds maximum ${this._options.maxStringLength}`, this._index);
+			throw this._error(BencodeErrorCode.MAX_SIZE_EXCEEDED, `String length ${length} exceeds maximum ${this._options.maxStringLength}`);
 		}
 
 		if (this._index + length > this._buffer.length) {
-			throw this._decodeError(BencodeErrorCode.UNEXPECTED_END, `Unexpected end of data: expected ${length} bytes for string`);
+			throw this._decodeError(BencodeErrorCode.UNEXPECTED_END, `Unexpected end of data: expected ${length} bytes for string`, `${length} bytes`);
 		}
 
-		const bytes = new Uint8Array(length);
+		const start = this._index;
+		this._index += length;
+
+		return start;
+	}
 
-		for (let i = 0; i < length; i++) {
-			bytes[i] = this._next();
+	/**
+	 * Decodes a bencode string length prefix.
+	 *
+	 * String length prefixes are digits followed by `:` (e.g., `5:`). Unless `strict` or
+	 * `strictSyntax` is set, a missing `:` is tolerated and a decimal point truncates the length.
+	 *
+	 * @returns The decoded length.
+	 * @throws {BencodeDecodeError} With code `INTEGER_OVERFLOW` if the length exceeds `Number.MAX_SAFE_INTEGER`.
+	 * @throws {BencodeDecodeError} With code `LEADING_ZEROS` if strict syntax is enabled and the
+	 *   length has leading zeros.
+	 * @throws {BencodeDecodeError} With code `MISSING_COLON` if strict syntax is enabled and the
+	 *   length is not followed by `:`.
+	 */
+	private _decodeStringLength(): number {
+		const isStrict = this._isStrictSyntax();
+
+		if (isStrict && this._currentChar() === 0x30 && BencodeDecoder._isInteger(this._buffer[this._index + 1])) {
+			this._recover(this._decodeError(BencodeErrorCode.LEADING_ZEROS, 'Invalid bencode: leading zeros are not allowed in string length'));
 		}
 
-		return this._options.stringify
-			? Bytes.toString(bytes, this._options.encoding || 'utf8')
-			: bytes;
+		const length = this._readDigits(false, !isStrict);
+
+		if (isStrict && this._currentChar() !== FLAG.STR_DELIMITER) {
+			if (this._isEOF()) {
+				throw this._decodeError(BencodeErrorCode.UNEXPECTED_END, 'Unexpected end of data: expected \':\' after string length', '\':\'');
+			}
+
+			this._recover(this._decodeError(BencodeErrorCode.MISSING_COLON, 'Invalid bencode: expected \':\' after string length', '\':\''));
+			// read on as without strict syntax
+			this._readDigits(false, true);
+		}
+
+		if (this._currentChar() === FLAG.STR_DELIMITER) {
+			this._index++;
+		}
+
+		return length;
+	}
+
+	/**
+	 * Checks whether integers and string lengths must follow the bencode grammar exactly.
+	 *
+	 * @returns `true` if `strict` or `strictSyntax` is set, or while {@link validate} runs.
+	 */
+	private _isStrictSyntax(): boolean {
+		return Boolean(this._options.strict || this._options.strictSyntax || this._issues);
 	}
 
 	/**
-	 * Decodes a bencode integer value or string length prefix.
+	 * Decodes a bencode integer value.
 	 *
 	 * Bencode integers are formatted as `i<number>e` (e.g., `i42e`, `i-17e`).
-	 * String length prefixes are just digits followed by `:` (e.g., `5:`).
 	 *
-	 * **Non-standard extensions:**
+	 * The result is a `number` by default, and integers outside the safe integer range are
+	 * rejected rather than rounded. With `integers: 'bigint'` every integer is returned as
+	 * a `bigint`, and with `integers: 'auto'` only integers outside the safe integer range are.
+	 *
+	 * **Non-standard extensions** (rejected if `strict` or `strictSyntax` is set):
 	 * - A leading `+` sign is silently ignored (`i+42e` → `42`)
 	 * - Decimal points cause the fractional part to be discarded (`i3.14e` → `3`)
+	 * - An integer without digits is zero (`ie` → `0`)
 	 *
 	 * @returns The decoded integer value.
 	 * @throws {BencodeDecodeError} With code `LEADING_ZEROS` if the integer has leading zeros.
 	 * @throws {BencodeDecodeError} With code `NEGATIVE_ZERO` if negative zero is encountered.
+	 * @throws {BencodeDecodeError} With code `INVALID_INTEGER` if strict syntax is enabled and the
+	 *   integer uses a non-standard extension or has other characters before the terminating `e`.
+	 * @throws {BencodeDecodeError} With code `MAX_INTEGER_DIGITS_EXCEEDED` if the integer has more
+	 *   digits than `maxIntegerDigits` (4300 if not set).
 	 * @throws {BencodeDecodeError} With code `UNEXPECTED_END` if the terminating `e` is missing.
+	 * @throws {BencodeDecodeError} With code `INTEGER_OVERFLOW` if `integers` is `'number'` and the
+	 *   integer is outside the safe integer range.
 	 */
-	private _decodeInteger(): number {
+	private _decodeInteger(): number | bigint {
 		let sign = 1;
-		let isFloat = false;
-		let integer = 0;
-		let isBencodeInteger = false;
-
-		if (this._currentChar() === FLAG.INTEGER) {
-			this._index++;
-			isBencodeInteger = true;
-		}
+		const isStrict = this._isStrictSyntax();
+		// skip INTEGER flag
+		this._next();
 
 		if (this._currentChar() === FLAG.PLUS) {
+			if (isStrict) {
+				this._recover(this._decodeError(BencodeErrorCode.INVALID_INTEGER, 'Invalid bencode: \'+\' sign is not allowed in integer', '\'-\' or a digit'));
+			}
 			this._index++;
 		}
 
@@ -339,120 +1138,439 @@ export class BencodeDecoder {
 			sign = -1;
 		}
 
-		// Check for leading zeros (only for bencode integers, not string lengths)
-		if (isBencodeInteger && this._currentChar() === 0x30 && BencodeDecoder._isInteger(this._buffer[this._index + 1])) {
-			throw this._decodeError(BencodeErrorCode.LEADING_ZEROS, 'Invalid bencode: leading zeros are not allowed');
+		if (this._currentChar() === 0x30 && BencodeDecoder._isInteger(this._buffer[this._index + 1])) {
+			this._recover(this._decodeError(BencodeErrorCode.LEADING_ZEROS, 'Invalid bencode: leading zeros are not allowed'));
 		}
 
-		while (BencodeDecoder._isInteger(this._currentChar()) || this._currentChar() === FLAG.DOT) {
-			if (this._currentChar() === FLAG.DOT) {
-				isFloat = true;
-			}
+		const digitsStart = this._index;
+		const allowUnsafe = this._options.integers === 'bigint' || this._options.integers === 'auto';
+		const integer = this._readDigits(allowUnsafe, !isStrict);
+		const digits = this._index - digitsStart;
+		const maxDigits = this._options.maxIntegerDigits || BencodeDecoder.DEFAULT_MAX_INTEGER_DIGITS;
 
-			isFloat === false
-				? integer = (integer * 10) + (this._next() - 0x30)
-				: this._index++;
+		if (digits > maxDigits) {
+			throw this._error(
+				BencodeErrorCode.MAX_INTEGER_DIGITS_EXCEEDED,
+				`Integer digit count ${digits} exceeds maximum ${maxDigits}`,
+				this._offset + digitsStart + maxDigits,
+			);
 		}
 
-		if (isBencodeInteger) {
-			if (this._isEOF() || this._currentChar() !== FLAG.END) {
-				throw this._decodeError(BencodeErrorCode.UNEXPECTED_END, 'Unexpected end of data: expected \'e\' to terminate integer');
-			}
-			this._index++;
+		if (isStrict && !this._isEOF() && this._index === digitsStart) {
+			this._recover(this._decodeError(BencodeErrorCode.INVALID_INTEGER, 'Invalid bencode: integer has no digits', 'a digit'));
 		}
-		else if (this._currentChar() === FLAG.STR_DELIMITER) {
-			this._index++;
+
+		if (isStrict && !this._isEOF() && this._currentChar() !== FLAG.END) {
+			this._recover(this._decodeError(BencodeErrorCode.INVALID_INTEGER, 'Invalid bencode: unexpected character in integer', 'a digit or \'e\''));
+			// read on as without strict syntax
+			this._readDigits(true, true);
+		}
+
+		if (this._isEOF() || this._currentChar() !== FLAG.END) {
+			throw this._decodeError(BencodeErrorCode.UNEXPECTED_END, 'Unexpected end of data: expected \'e\' to terminate integer', '\'e\'');
 		}
+		this._index++;
 
 		if (sign === -1 && integer === 0) {
-			throw this._decodeError(BencodeErrorCode.NEGATIVE_ZERO, 'Invalid bencode: negative zero is not allowed');
+			this._recover(this._decodeError(BencodeErrorCode.NEGATIVE_ZERO, 'Invalid bencode: negative zero is not allowed'));
+		}
+
+		if (this._options.integers === 'bigint' || (this._options.integers === 'auto' && integer > Number.MAX_SAFE_INTEGER)) {
+			const bigInteger = this._parseBigInt(digitsStart);
+
+			return sign === -1 ? -bigInteger : bigInteger;
 		}
 
 		return integer * sign;
 	}
 
 	/**
-	 * Decodes a bencode list value.
+	 * Reads a run of ASCII digits starting at the current position.
 	 *
-	 * Bencode lists are formatted as `l<items>e` where items are any valid
-	 * bencode values. Lists can be nested and contain mixed types.
+	 * If `allowFraction` is set, a decimal point and everything after it is consumed but
+	 * discarded, so only the integral part contributes to the result.
 	 *
-	 * @returns The decoded list as a JavaScript array.
-	 * @throws {BencodeDecodeError} With code `MAX_DEPTH_EXCEEDED` if nesting exceeds `maxDepth`.
-	 * @throws {BencodeDecodeError} With code `UNEXPECTED_END` if the terminating `e` is missing.
+	 * Scanning stops at the first digit that pushes the value past `Number.MAX_SAFE_INTEGER`
+	 * unless `allowUnsafe` is set, so oversized digit runs are rejected early. While
+	 * {@link validate} runs, the problem is recorded and the rest of the digits are read.
+	 *
+	 * @param allowUnsafe - Whether values above `Number.MAX_SAFE_INTEGER` are accepted
+	 *   (the caller re-reads them as `bigint`).
+	 * @param allowFraction - Whether a decimal point and the digits after it are consumed.
+	 * @returns The integral value of the digit run.
+	 * @throws {BencodeDecodeError} With code `INTEGER_OVERFLOW` if the value is not a safe
+	 *   integer and `allowUnsafe` is not set.
 	 */
-	private _decodeList(): BencodeDecodedList {
-		this._currentDepth++;
-		if (this._options.maxDepth && this._currentDepth > this._options.maxDepth) {
-			throw new BencodeDecodeError(BencodeErrorCode.MAX_DEPTH_EXCEEDED, `Nesting depth ${this._currentDepth} exceeds maximum ${this._options.maxDepth}`, this._index);
-		}
+	private _readDigits(allowUnsafe: boolean, allowFraction: boolean): number {
+		let isFloat = false;
+		let integer = 0;
 
-		const acc = [];
-		// skip LIST flag
-		this._next();
+		while (BencodeDecoder._isInteger(this._currentChar()) || (allowFraction && this._currentChar() === FLAG.DOT)) {
+			if (this._currentChar() === FLAG.DOT) {
+				isFloat = true;
+			}
+
+			if (isFloat) {
+				this._index++;
+				continue;
+			}
+
+			integer = (integer * 10) + (this._currentChar() - 0x30);
+
+			if (!allowUnsafe && integer > Number.MAX_SAFE_INTEGER) {
+				this._recover(this._decodeError(BencodeErrorCode.INTEGER_OVERFLOW, 'Invalid bencode: integer exceeds Number.MAX_SAFE_INTEGER'));
+				allowUnsafe = true;
+			}
 
-		while (!this._isEOF() && this._currentChar() !== FLAG.END) {
-			acc.push(this.decode());
+			this._index++;
 		}
 
-		if (this._isEOF()) {
-			this._currentDepth--;
-			throw this._decodeError(BencodeErrorCode.UNEXPECTED_END, 'Unexpected end of data: expected \'e\' to terminate list');
+		return integer;
+	}
+
+	/**
+	 * Parses the digit run starting at `start` as an exact `bigint`.
+	 *
+	 * Only the integral digits are used; a fractional part is ignored the same way
+	 * {@link BencodeDecoder._readDigits} ignores it.
+	 *
+	 * @param start - Buffer offset of the first digit.
+	 * @returns The unsigned integral value of the digit run.
+	 */
+	private _parseBigInt(start: number): bigint {
+		let end = start;
+		while (BencodeDecoder._isInteger(this._buffer[end])) {
+			end++;
 		}
-		// skip END flag
-		this._next();
-		this._currentDepth--;
 
-		return acc;
+		return BigInt(Bytes.toString(this._buffer.subarray(start, end), 'latin1'));
+	}
+
+	/**
+	 * Enters a bencode list.
+	 *
+	 * Bencode lists are formatted as `l<items>e` where items are any valid
+	 * bencode values. Lists can be nested and contain mixed types.
+	 *
+	 * @param mark - The index node or span of the list.
+	 * @returns The frame collecting the items.
+	 * @throws {BencodeDecodeError} With code `MAX_DEPTH_EXCEEDED` if nesting exceeds `maxDepth`.
+	 */
+	private _openList(mark: number): IListFrame {
+		this._enterContainer();
+		const frame: IListFrame = { type: 'list', mark, parentSpan: this._parentSpan, items: [], count: 0 };
+		this._parentSpan = mark;
+
+		return frame;
 	}
 
 	/**
-	 * Decodes a bencode dictionary value.
+	 * Enters a bencode dictionary.
 	 *
 	 * Bencode dictionaries are formatted as `d<key><value>...e` where keys are
 	 * bencode strings and values are any valid bencode values. According to the
 	 * specification, keys must be in sorted lexicographic order, but this is only
 	 * enforced when `strict: true`.
 	 *
-	 * @returns The decoded dictionary as a JavaScript object.
+	 * @param mark - The index node or span of the dictionary.
+	 * @returns The frame collecting the entries, as a JavaScript object, or as a `Map` with
+	 *   raw keys if `dictionaryType: 'map'`.
 	 * @throws {BencodeDecodeError} With code `MAX_DEPTH_EXCEEDED` if nesting exceeds `maxDepth`.
+	 */
+	private _openDictionary(mark: number): IDictionaryFrame {
+		this._enterContainer();
+		const map: BencodeDecodedMap | null = this._options.dictionaryType === 'map' ? new Map() : null;
+		const isRawKeyed = map !== null && (!this._options.stringify || this._options.stringify === 'auto');
+		const frame: IDictionaryFrame = {
+			type: 'dictionary',
+			mark,
+			parentSpan: this._parentSpan,
+			count: 0,
+			object: this._options.nullPrototype ? Object.create(null) : { },
+			map,
+			isRawKeyed,
+			// plain assignment handles 'last' unless keys are raw
+			seen: (this._options.duplicateKeys || 'last') !== 'last' || isRawKeyed || this._issues ? new Map() : null,
+			collected: new Map(),
+			prevKey: null,
+			key: '',
+			name: '',
+			id: '',
+			firstKey: undefined,
+			isUnsafe: false,
+		};
+		this._parentSpan = mark;
+
+		return frame;
+	}
+
+	/**
+	 * Moves to the next item of a list.
+	 *
+	 * @param frame - The list.
+	 * @returns `true` if an item follows, `false` at the terminating `e`.
+	 * @throws {BencodeDecodeError} With code `MAX_LIST_LENGTH_EXCEEDED` if the list exceeds `maxListLength`.
+	 * @throws {BencodeDecodeError} With code `UNEXPECTED_END` if the terminating `e` is missing.
+	 */
+	private _nextItem(frame: IListFrame): boolean {
+		this._clearKey();
+
+		if (this._isContainerEnd('list')) {
+			return false;
+		}
+
+		this._checkContainerSize(++frame.count, 'list');
+		this._setKey(frame.count - 1);
+
+		return true;
+	}
+
+	/**
+	 * Moves to the value of the next entry of a dictionary, reading and checking its key.
+	 *
+	 * @param frame - The dictionary.
+	 * @returns `true` if an entry follows, `false` at the terminating `e`.
+	 * @throws {BencodeDecodeError} With code `MAX_DICT_KEYS_EXCEEDED` if the dictionary exceeds `maxDictKeys`.
+	 * @throws {BencodeDecodeError} With code `INVALID_KEY` if a key is not a string.
+	 * @throws {BencodeDecodeError} With code `DUPLICATE_KEY` if `duplicateKeys: 'error'` and a key
+	 *   is repeated.
 	 * @throws {BencodeDecodeError} With code `UNSORTED_KEYS` if `strict: true` and keys are not sorted.
+	 * @throws {BencodeDecodeError} With code `UNSAFE_KEY` if `unsafeKeys: 'error'` and a key such
+	 *   as `__proto__` is found.
 	 * @throws {BencodeDecodeError} With code `UNEXPECTED_END` if the terminating `e` is missing.
 	 */
-	private _decodeDictionary(): BencodeDecodedDictionary {
-		this._currentDepth++;
-		if (this._options.maxDepth && this._currentDepth > this._options.maxDepth) {
-			throw new BencodeDecodeError(BencodeErrorCode.MAX_DEPTH_EXCEEDED, `Nesting depth ${this._currentDepth} exceeds maximum ${this._options.maxDepth}`, this._index);
+	private _nextEntry(frame: IDictionaryFrame): boolean {
+		this._clearKey();
+
+		if (this._isContainerEnd('dictionary')) {
+			return false;
 		}
 
-		const acc: BencodeDecodedDictionary = { };
-		let prevKey: Uint8Array | null = null;
-		// skip DICTIONARY flag
-		this._next();
+		this._checkContainerSize(++frame.count, 'dictionary');
+		const keyPosition = this._offset + this._index;
+		const key = this._decodeString(true);
+		const keyBytes = Bytes.isBytes(key) ? key : Bytes.fromString(key);
+		const name = typeof key === 'string' ? key : Bytes.toString(key);
+		const id = frame.isRawKeyed ? Bytes.toString(keyBytes, 'latin1') : name;
+		const firstKey = frame.seen ? frame.seen.get(id) : undefined;
+		this._setKey(name);
+
+		if (this._issues && Bytes.tryToString(keyBytes) === null) {
+			this._recover(this._error(BencodeErrorCode.INVALID_UTF8, `Invalid bencode: dictionary key '${name}' is not valid UTF-8 at position ${keyPosition}`, keyPosition));
+		}
+
+		const isReportedDuplicate = firstKey !== undefined && (this._options.duplicateKeys === 'error' || this._issues !== null);
+
+		if (firstKey === undefined) {
+			frame.seen?.set(id, key);
+		}
+		else if (isReportedDuplicate) {
+			this._recover(this._error(BencodeErrorCode.DUPLICATE_KEY, `Invalid bencode: duplicate dictionary key '${name}' at position ${keyPosition}`, keyPosition));
+		}
+
+		// a reported duplicate is out of order as well, but is reported once
+		if ((this._options.strict || this._issues) && !isReportedDuplicate && frame.prevKey !== null && Bytes.compare(frame.prevKey, keyBytes) >= 0) {
+			const prevKeyStr = Bytes.toString(frame.prevKey);
+			this._recover(this._decodeError(BencodeErrorCode.UNSORTED_KEYS, `Invalid bencode: dictionary keys must be in sorted order (key '${name}' after '${prevKeyStr}')`));
+		}
+
+		frame.prevKey = keyBytes;
+
+		if (this._nodes) {
+			const end = this._offset + this._index;
+			this._nodes.close(this._nodes.open(end - keyBytes.length), end);
+		}
+
+		const isUnsafe = !frame.map && BencodeDecoder.UNSAFE_KEYS.has(name);
 
-		while (!this._isEOF() && this._currentChar() !== FLAG.END) {
-			const key = this._decodeString();
-			const keyBytes = Bytes.isBytes(key) ? key : Bytes.fromString(key);
+		if (isUnsafe && this._options.unsafeKeys === 'error') {
+			this._recover(this._error(BencodeErrorCode.UNSAFE_KEY, `Invalid bencode: unsafe dictionary key '${name}' at position ${keyPosition}`, keyPosition));
+		}
+
+		if (this._nodes || this._issues) {
+			return true;
+		}
+
+		frame.key = key;
+		frame.name = name;
+		frame.id = id;
+		frame.firstKey = firstKey;
+		frame.isUnsafe = isUnsafe;
 
-			if (this._options.strict && prevKey !== null && Bytes.compare(prevKey, keyBytes) >= 0) {
-				const keyStr = typeof key === 'string' ? key : Bytes.toString(key);
-				const prevKeyStr = Bytes.toString(prevKey);
-				throw this._decodeError(BencodeErrorCode.UNSORTED_KEYS, `Invalid bencode: dictionary keys must be in sorted order (key '${keyStr}' after '${prevKeyStr}')`);
+		return true;
+	}
+
+	/**
+	 * Adds a decoded value to a list, or to a dictionary under the key read last.
+	 *
+	 * Nothing is added while an index is built or the data is validated.
+	 *
+	 * @param frame - The list or dictionary.
+	 * @param value - The decoded value.
+	 */
+	private _addChild(frame: IListFrame | IDictionaryFrame, value: BencodeDecodedValue): void {
+		if (this._nodes || this._issues) {
+			return;
+		}
+
+		if (frame.type === 'list') {
+			frame.items.push(value);
+
+			return;
+		}
+
+		const { map, object, name, id, firstKey } = frame;
+		const duplicateKeys = this._options.duplicateKeys;
+
+		if (firstKey !== undefined && duplicateKeys === 'first') {
+			return;
+		}
+
+		if (firstKey !== undefined && duplicateKeys === 'collect') {
+			const values = frame.collected.get(id);
+
+			if (values) {
+				values.push(value);
+
+				return;
 			}
 
-			prevKey = keyBytes;
-			acc[typeof key === 'string' ? key : Bytes.toString(key)] = this.decode();
+			value = [ map ? map.get(firstKey)! : object[name], value ];
+			frame.collected.set(id, value);
 		}
 
+		if (map) {
+			map.set(firstKey ?? frame.key, value);
+		}
+		else if (!frame.isUnsafe) {
+			object[name] = value;
+		}
+		else if (this._options.unsafeKeys !== 'ignore') {
+			// defined rather than assigned, so that `__proto__` cannot replace the prototype
+			Object.defineProperty(object, name, { value, writable: true, enumerable: true, configurable: true });
+		}
+	}
+
+	/**
+	 * Leaves a list or dictionary whose terminating `e` is at the current position.
+	 *
+	 * @param frame - The list or dictionary.
+	 * @returns The decoded list or dictionary, frozen if `freeze: true`.
+	 */
+	private _closeContainer(frame: IListFrame | IDictionaryFrame): BencodeDecodedValue {
+		this._leaveContainer();
+		this._closeMark(frame.mark);
+		this._parentSpan = frame.parentSpan;
+
+		const value = frame.type === 'list' ? frame.items : frame.map || frame.object;
+
+		if (this._options.freeze) {
+			if (frame.type === 'dictionary') {
+				for (const values of frame.collected.values()) {
+					Object.freeze(values);
+				}
+			}
+			Object.freeze(value);
+		}
+
+		return value;
+	}
+
+	/**
+	 * Sets the list index or dictionary key of the next value.
+	 *
+	 * @param key - The index or key.
+	 */
+	private _setKey(key: string | number | Uint8Array): void {
+		if (!Bytes.isBytes(key)) {
+			this._key = key;
+		}
+
+		this._path[this._currentDepth - 1] = key;
+	}
+
+	/**
+	 * Forgets the list index or dictionary key of the previous value, before the next one is read.
+	 */
+	private _clearKey(): void {
+		this._path.length = this._currentDepth - 1;
+	}
+
+	/**
+	 * Enters a list or dictionary, skipping its type marker.
+	 *
+	 * @throws {BencodeDecodeError} With code `MAX_DEPTH_EXCEEDED` if nesting exceeds `maxDepth`.
+	 */
+	private _enterContainer(): void {
+		this._currentDepth++;
+		if (this._options.maxDepth && this._currentDepth > this._options.maxDepth) {
+			throw this._error(BencodeErrorCode.MAX_DEPTH_EXCEEDED, `Nesting depth ${this._currentDepth} exceeds maximum ${this._options.maxDepth}`);
+		}
+		// skip LIST or DICTIONARY flag
+		this._next();
+	}
+
+	/**
+	 * Checks whether the current position is the end of the list or dictionary being read.
+	 *
+	 * @param type - The kind of container, for the error message.
+	 * @returns `true` at the terminating `e`.
+	 * @throws {BencodeDecodeError} With code `UNEXPECTED_END` if the buffer ends first.
+	 */
+	private _isContainerEnd(type: 'list' | 'dictionary'): boolean {
 		if (this._isEOF()) {
 			this._currentDepth--;
-			throw this._decodeError(BencodeErrorCode.UNEXPECTED_END, 'Unexpected end of data: expected \'e\' to terminate dictionary');
+			throw this._decodeError(BencodeErrorCode.UNEXPECTED_END, `Unexpected end of data: expected 'e' to terminate ${type}`, '\'e\'');
+		}
+
+		return this._currentChar() === FLAG.END;
+	}
+
+	/**
+	 * Counts the value at the current position against `maxNodes`.
+	 *
+	 * The count restarts with every top-level value.
+	 *
+	 * @throws {BencodeDecodeError} With code `MAX_NODES_EXCEEDED` if the count exceeds `maxNodes`.
+	 */
+	private _countNode(): void {
+		if (this._currentDepth === 0) {
+			this._nodeCount = 0;
+		}
+
+		this._nodeCount++;
+
+		if (this._options.maxNodes && this._nodeCount > this._options.maxNodes) {
+			throw this._error(BencodeErrorCode.MAX_NODES_EXCEEDED, `Value count ${this._nodeCount} exceeds maximum ${this._options.maxNodes}`);
+		}
+	}
+
+	/**
+	 * Checks the size of the list or dictionary being read before its next item or entry.
+	 *
+	 * @param count - The number of items or entries, including the next one.
+	 * @param type - The kind of container.
+	 *
+	 * @throws {BencodeDecodeError} With code `MAX_LIST_LENGTH_EXCEEDED` if a list exceeds `maxListLength`.
+	 * @throws {BencodeDecodeError} With code `MAX_DICT_KEYS_EXCEEDED` if a dictionary exceeds `maxDictKeys`.
+	 */
+	private _checkContainerSize(count: number, type: 'list' | 'dictionary'): void {
+		if (type === 'list' && this._options.maxListLength && count > this._options.maxListLength) {
+			throw this._error(BencodeErrorCode.MAX_LIST_LENGTH_EXCEEDED, `List length ${count} exceeds maximum ${this._options.maxListLength}`);
 		}
+
+		if (type === 'dictionary' && this._options.maxDictKeys && count > this._options.maxDictKeys) {
+			throw this._error(BencodeErrorCode.MAX_DICT_KEYS_EXCEEDED, `Dictionary key count ${count} exceeds maximum ${this._options.maxDictKeys}`);
+		}
+	}
+
+	/**
+	 * Leaves a list or dictionary, skipping its terminating `e`.
+	 */
+	private _leaveContainer(): void {
 		// skip END flag
 		this._next();
 		this._currentDepth--;
-
-		return acc;
 	}
 
 }
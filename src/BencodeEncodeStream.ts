@@ -0,0 +1,50 @@
+import { BencodeEncodableValue, IBencodecOptions } from './types';
+import { BencodeEncoder } from './BencodeEncoder';
+
+/**
+ * WHATWG `TransformStream` that encodes values into a stream of bencode bytes.
+ *
+ * Every written value is encoded with {@link BencodeEncoder} and enqueued as one
+ * `Uint8Array` chunk, so the output is a concatenation of bencode values that
+ * {@link BencodeDecodeStream} can read back. Backpressure is handled by the underlying
+ * `TransformStream`: values are not encoded while the readable side is full.
+ *
+ * @example
+ * ```typescript
+ * import { BencodeEncodeStream } from 'bencodec';
+ *
+ * const messages = ReadableStream.from([ { t: 'aa', y: 'q' }, { t: 'ab', y: 'q' } ]);
+ * await messages
+ *   .pipeThrough(new BencodeEncodeStream())
+ *   .pipeTo(socketWritable);
+ * ```
+ *
+ * @remarks
+ * A value that cannot be encoded errors both sides of the stream with a
+ * {@link BencodeEncodeError}. The `stringify` option is ignored, output chunks are always bytes.
+ */
+export class BencodeEncodeStream extends TransformStream<BencodeEncodableValue, Uint8Array> {
+
+	/**
+	 * Creates a new BencodeEncodeStream instance.
+	 *
+	 * @param options - Configuration options applied to every encoded value.
+	 * @param writableStrategy - Queuing strategy for the written values.
+	 * @param readableStrategy - Queuing strategy for the encoded byte chunks.
+	 */
+	public constructor(
+		options?: IBencodecOptions,
+		writableStrategy?: QueuingStrategy<BencodeEncodableValue>,
+		readableStrategy?: QueuingStrategy<Uint8Array>,
+	) {
+		const encoderOptions: IBencodecOptions = { ...options, stringify: false };
+
+		super({
+			transform(value, controller) {
+				const encoder = new BencodeEncoder(encoderOptions);
+				controller.enqueue(encoder.encode(value) as Uint8Array);
+			},
+		}, writableStrategy, readableStrategy);
+	}
+
+}
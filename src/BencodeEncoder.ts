@@ -1,7 +1,64 @@
-import { BencodeEncodableDictionary, BencodeEncodableList, BencodeEncodableValue, FLAG, IBencodecOptions } from './types';
+import {
+	BENCODE_SERIALIZE,
+	BencodeEncodableDictionary,
+	BencodeEncodableIterable,
+	BencodeEncodableMap,
+	BencodeEncodableValue,
+	FLAG,
+	IBencodecOptions,
+} from './types';
 import { BencodeEncodeError, BencodeErrorCode } from './errors';
 import { Bytes } from './bytes';
 
+/**
+ * A value to encode, with the object a serialization hook converted it from.
+ */
+interface ISerializedValue {
+	/** The value to encode, `null` or `undefined` to skip it */
+	value: BencodeEncodableValue;
+
+	/** The object passed to the hook, tracked for circular references while the value is encoded, `null` if not converted */
+	original: object | null;
+}
+
+/**
+ * A list being encoded, with the iterator over its remaining items.
+ */
+interface IListFrame {
+	type: 'list';
+
+	/** The array or iterable, tracked for circular references until the list ends */
+	source: object;
+
+	/** The object the list was converted from, tracked until the list ends, `null` if not converted */
+	original: object | null;
+
+	/** Iterator over the items not encoded yet */
+	items: Iterator<unknown>;
+
+	/** Index of the next item */
+	index: number;
+}
+
+/**
+ * A dictionary being encoded, with its entries sorted by key.
+ */
+interface IDictionaryFrame {
+	type: 'dictionary';
+
+	/** The object or Map, tracked for circular references until the dictionary ends */
+	source: object;
+
+	/** The object the dictionary was converted from, tracked until the dictionary ends, `null` if not converted */
+	original: object | null;
+
+	/** Encoded keys and their converted values, sorted by key */
+	entries: Array<[Uint8Array, ISerializedValue]>;
+
+	/** Index of the next entry */
+	index: number;
+}
+
 /**
  * Encoder for converting JavaScript values to bencode format.
  *
@@ -31,16 +88,30 @@ import { Bytes } from './bytes';
  *
  * **Supported JavaScript types:**
  * - `number` - Encoded as bencode integer (floats truncated toward zero)
+ * - `bigint` - Encoded as bencode integer (exact)
  * - `boolean` - Encoded as bencode integer (`true` → `i1e`, `false` → `i0e`)
- * - `string` - Encoded as bencode string
+ * - `string` / `String` objects - Encoded as bencode string
  * - `Uint8Array` / `ArrayBuffer` / `ArrayBufferView` - Encoded as bencode string (raw bytes)
  * - `Array` - Encoded as bencode list
- * - `Object` - Encoded as bencode dictionary (keys auto-sorted)
+ * - `Object` - Encoded as bencode dictionary (keys sorted by UTF-8 bytes)
+ * - `Map` - Encoded as bencode dictionary (string or `Uint8Array` keys, sorted by bytes)
+ * - `Set` and other iterables - Encoded as bencode list, in iteration order
  * - `null` / `undefined` - Silently skipped in lists and dictionaries
  *
+ * **Custom serialization:**
+ * Objects are converted before encoding by the first matching entry of `serializers`, or else
+ * by their own `[BENCODE_SERIALIZE]()` or `toBencode()` method. The `replacer` option is then
+ * called for every value, like the replacer of `JSON.stringify`. A converted object is tracked
+ * for circular references while the value it was converted to is encoded.
+ *
+ * Nested lists and dictionaries are encoded with an explicit stack rather than recursion, so
+ * nesting depth is only limited by memory.
+ *
  * **Error handling:**
  * - Circular references are detected and throw `CIRCULAR_REFERENCE` errors
- * - Unsupported types (functions, symbols, BigInt) throw `UNSUPPORTED_TYPE` errors
+ * - Unsupported types (functions, symbols) throw `UNSUPPORTED_TYPE` errors
+ * - Unsafe numbers throw `UNSAFE_INTEGER` errors when `safeIntegers: true` or `strict: true`
+ * - Keys that encode to the same bytes throw `DUPLICATE_KEY` errors when `strict: true`
  */
 export class BencodeEncoder {
 
@@ -100,9 +171,13 @@ export class BencodeEncoder {
 	 * @returns The bencode-encoded data as a Uint8Array (default) or string (if `stringify: true`).
 	 *
 	 * @throws {BencodeEncodeError} With code `UNSUPPORTED_TYPE` if the value contains an
-	 *   unsupported type (e.g., functions, symbols, BigInt).
+	 *   unsupported type (e.g., functions, symbols).
 	 * @throws {BencodeEncodeError} With code `CIRCULAR_REFERENCE` if the data contains
 	 *   circular references.
+	 * @throws {BencodeEncodeError} With code `UNSAFE_INTEGER` if `safeIntegers: true` or
+	 *   `strict: true` and a number is not a safe integer after truncation.
+	 * @throws {BencodeEncodeError} With code `DUPLICATE_KEY` if `strict: true` and two keys of a
+	 *   dictionary encode to the same bytes.
 	 *
 	 * @example
 	 * ```typescript
@@ -115,13 +190,63 @@ export class BencodeEncoder {
 	 * ```
 	 */
 	public encode(data: BencodeEncodableValue): Uint8Array | string {
-		this._encodeType(data);
+		const stack: Array<IListFrame | IDictionaryFrame> = [];
+		let next: IteratorResult<ISerializedValue, undefined> = { done: false, value: this._serialize(data, '') };
+
+		while (!next.done) {
+			const { value, original } = next.value;
+
+			if (original) {
+				this._visit(original);
+			}
+
+			const frame = this._encodeType(value);
+
+			if (frame) {
+				frame.original = original;
+				stack.push(frame);
+			}
+			else if (original) {
+				this._visited.delete(original);
+			}
 
-		return this._options.stringify
+			next = this._nextValue(stack);
+		}
+
+		return this._options.stringify === true
 			? Bytes.toString(Bytes.concat(this._buffer))
 			: Bytes.concat(this._buffer);
 	}
 
+	/**
+	 * Moves to the next value to encode, ending every list and dictionary that has no more.
+	 *
+	 * @param stack - The lists and dictionaries being encoded, innermost last.
+	 * @returns The next item or dictionary value, with the path leading to it, or `done` once
+	 *   the root value is complete.
+	 */
+	private _nextValue(stack: Array<IListFrame | IDictionaryFrame>): IteratorResult<ISerializedValue, undefined> {
+		while (stack.length > 0) {
+			const frame = stack[stack.length - 1];
+			this._path.length = stack.length - 1;
+			const next = frame.type === 'list' ? this._nextItem(frame) : this._nextEntry(frame);
+
+			if (!next.done) {
+				return next;
+			}
+
+			stack.pop();
+			this._buffer.push(this._endIdentifier);
+			this._visited.delete(frame.source);
+
+			if (frame.original) {
+				this._visited.delete(frame.original);
+			}
+		}
+
+		return { done: true, value: undefined };
+	}
+
 	/**
 	 * Routes encoding to the appropriate type-specific method.
 	 *
@@ -130,14 +255,16 @@ export class BencodeEncoder {
 	 * Uint8Array vs ArrayBufferView vs generic object.
 	 *
 	 * @param data - The value to encode.
+	 * @returns The frame of a list or dictionary, whose children are encoded next, `null` for
+	 *   other values.
 	 * @throws {BencodeEncodeError} With code `UNSUPPORTED_TYPE` for unsupported types.
 	 */
-	private _encodeType(data: BencodeEncodableValue): void {
+	private _encodeType(data: BencodeEncodableValue): IListFrame | IDictionaryFrame | null {
 		if (Bytes.isBytes(data)) {
 			return this._encodeBytes(data);
 		}
 		if (Array.isArray(data)) {
-			return this._encodeList(data);
+			return this._openList(data);
 		}
 		if (ArrayBuffer.isView(data)) {
 			return this._encodeBytes(new Uint8Array(data.buffer, data.byteOffset, data.byteLength));
@@ -149,13 +276,26 @@ export class BencodeEncoder {
 			return this._encodeInteger(data ? 1 : 0);
 		}
 		if (typeof data === 'number') {
+			return this._encodeNumber(data);
+		}
+		if (typeof data === 'bigint') {
 			return this._encodeInteger(data);
 		}
 		if (typeof data === 'string') {
 			return this._encodeString(data);
 		}
+		// boxed strings are iterable, but encode as the string they wrap
+		if (data instanceof String) {
+			return this._encodeString(data.valueOf());
+		}
+		if (data instanceof Map) {
+			return this._openMap(data);
+		}
+		if (Symbol.iterator in Object(data)) {
+			return this._openList(data as BencodeEncodableIterable);
+		}
 		if (typeof data === 'object') {
-			return this._encodeDictionary(data as BencodeEncodableDictionary);
+			return this._openDictionary(data as BencodeEncodableDictionary);
 		}
 
 		throw new BencodeEncodeError(
@@ -172,13 +312,16 @@ export class BencodeEncoder {
 	 * byte length of the content.
 	 *
 	 * @param data - The Uint8Array to encode.
+	 * @returns `null`, as strings have no children.
 	 */
-	private _encodeBytes(data: Uint8Array): void {
+	private _encodeBytes(data: Uint8Array): null {
 		this._buffer.push(
 			Bytes.fromString(String(data.length)),
 			this._stringDelimiterIdentifier,
 			data,
 		);
+
+		return null;
 	}
 
 	/**
@@ -188,82 +331,177 @@ export class BencodeEncoder {
 	 * Note that the length prefix is the byte length, not the character count.
 	 *
 	 * @param data - The string to encode.
+	 * @returns `null`, as strings have no children.
 	 */
-	private _encodeString(data: string): void {
-		const encoded = Bytes.fromString(data);
-		this._buffer.push(
-			Bytes.fromString(String(encoded.length)),
-			this._stringDelimiterIdentifier,
-			encoded,
-		);
+	private _encodeString(data: string): null {
+		return this._encodeBytes(Bytes.fromString(data));
 	}
 
 	/**
 	 * Encodes a number as a bencode integer.
 	 *
-	 * Bencode integers are formatted as `i<number>e`. Floating-point numbers are
-	 * truncated toward zero (not rounded) before encoding.
+	 * Floating-point numbers are truncated toward zero (not rounded) before encoding.
 	 *
 	 * @param data - The number to encode.
+	 * @returns `null`, as integers have no children.
+	 * @throws {BencodeEncodeError} With code `UNSAFE_INTEGER` if `safeIntegers: true` or
+	 *   `strict: true` and the truncated number is not a safe integer.
+	 */
+	private _encodeNumber(data: number): null {
+		const integer = Math.trunc(data);
+
+		if ((this._options.safeIntegers || this._options.strict) && !Number.isSafeInteger(integer)) {
+			throw new BencodeEncodeError(
+				BencodeErrorCode.UNSAFE_INTEGER,
+				`${data} is not a safe integer, use bigint to encode it exactly.`,
+				[ ...this._path ],
+			);
+		}
+
+		return this._encodeInteger(integer);
+	}
+
+	/**
+	 * Encodes an integer as a bencode integer.
+	 *
+	 * Bencode integers are formatted as `i<number>e`.
+	 *
+	 * @param data - The integer to encode.
+	 * @returns `null`, as integers have no children.
 	 */
-	private _encodeInteger(data: number): void {
+	private _encodeInteger(data: number | bigint): null {
 		this._buffer.push(
 			this._integerIdentifier,
-			Bytes.fromString(String(Math.trunc(data))),
+			Bytes.fromString(String(data)),
 			this._endIdentifier,
 		);
+
+		return null;
 	}
 
 	/**
-	 * Encodes a JavaScript array as a bencode list.
+	 * Starts encoding a JavaScript array, `Set` or other iterable as a bencode list.
 	 *
-	 * Bencode lists are formatted as `l<items>e`. Elements are encoded in order.
+	 * Bencode lists are formatted as `l<items>e`. Elements are encoded in iteration order.
 	 * `null` and `undefined` values are silently skipped.
 	 *
 	 * Tracks visited objects to detect circular references.
 	 *
-	 * @param data - The array to encode.
-	 * @throws {BencodeEncodeError} With code `CIRCULAR_REFERENCE` if the array was already visited.
+	 * @param data - The array or iterable to encode.
+	 * @returns The frame of the list, whose items {@link _nextItem} yields.
+	 * @throws {BencodeEncodeError} With code `CIRCULAR_REFERENCE` if the list was already visited.
 	 */
-	private _encodeList(data: BencodeEncodableList): void {
-		if (this._visited.has(data)) {
-			throw new BencodeEncodeError(
-				BencodeErrorCode.CIRCULAR_REFERENCE,
-				'Circular reference detected',
-				[ ...this._path ],
-			);
-		}
-		this._visited.add(data);
-
+	private _openList(data: BencodeEncodableIterable): IListFrame {
+		this._visit(data);
 		this._buffer.push(this._listIdentifier);
 
-		for (let i = 0; i < data.length; i++) {
-			const item = data[i];
-			if (item === null || item === undefined) {
-				continue;
+		return { type: 'list', source: data, original: null, items: data[Symbol.iterator](), index: 0 };
+	}
+
+	/**
+	 * Moves to the next item of a list that is not `null` or `undefined`.
+	 *
+	 * @param frame - The list.
+	 * @returns The converted item, with its index added to the path, or `done` at the end of the list.
+	 */
+	private _nextItem(frame: IListFrame): IteratorResult<ISerializedValue, undefined> {
+		for (let item = frame.items.next(); !item.done; item = frame.items.next()) {
+			const index = frame.index++;
+			this._path.push(index);
+			const serialized = this._serialize(item.value, index);
+
+			if (serialized.value !== null && serialized.value !== undefined) {
+				return { done: false, value: serialized };
 			}
-			this._path.push(i);
-			this._encodeType(item);
+
 			this._path.pop();
 		}
 
-		this._buffer.push(this._endIdentifier);
-		this._visited.delete(data);
+		return { done: true, value: undefined };
 	}
 
 	/**
-	 * Encodes a JavaScript object as a bencode dictionary.
+	 * Starts encoding a JavaScript object as a bencode dictionary.
 	 *
-	 * Bencode dictionaries are formatted as `d<key><value>...e`. Keys are automatically
-	 * sorted lexicographically (by raw byte value) to comply with the bencode specification.
+	 * Bencode dictionaries are formatted as `d<key><value>...e`. Keys are encoded as UTF-8
+	 * and sorted by their raw bytes to comply with the bencode specification.
 	 * Properties with `null` or `undefined` values are silently skipped.
 	 *
 	 * Tracks visited objects to detect circular references.
 	 *
 	 * @param data - The object to encode.
+	 * @returns The frame of the dictionary, whose entries {@link _nextEntry} yields.
 	 * @throws {BencodeEncodeError} With code `CIRCULAR_REFERENCE` if the object was already visited.
 	 */
-	private _encodeDictionary(data: BencodeEncodableDictionary): void {
+	private _openDictionary(data: BencodeEncodableDictionary): IDictionaryFrame {
+		this._visit(data);
+
+		const entries: Array<[Uint8Array, ISerializedValue]> = [];
+
+		for (const key of Object.keys(data)) {
+			this._path.push(key);
+			const serialized = this._serialize(data[key], key);
+			this._path.pop();
+
+			if (serialized.value === null || serialized.value === undefined) {
+				continue;
+			}
+
+			entries.push([ Bytes.fromString(key), serialized ]);
+		}
+
+		return this._openEntries(data, entries);
+	}
+
+	/**
+	 * Starts encoding a Map as a bencode dictionary.
+	 *
+	 * Keys may be strings (encoded as UTF-8) or Uint8Arrays (encoded as-is), and are sorted
+	 * by their raw bytes. Entries with `null` or `undefined` values are silently skipped.
+	 *
+	 * Tracks visited objects to detect circular references.
+	 *
+	 * @param data - The Map to encode.
+	 * @returns The frame of the dictionary, whose entries {@link _nextEntry} yields.
+	 * @throws {BencodeEncodeError} With code `CIRCULAR_REFERENCE` if the Map was already visited.
+	 * @throws {BencodeEncodeError} With code `UNSUPPORTED_TYPE` if a key is not a string or Uint8Array.
+	 */
+	private _openMap(data: BencodeEncodableMap): IDictionaryFrame {
+		this._visit(data);
+
+		const entries: Array<[Uint8Array, ISerializedValue]> = [];
+
+		for (const [ key, value ] of data) {
+			if (typeof key !== 'string' && !Bytes.isBytes(key)) {
+				throw new BencodeEncodeError(
+					BencodeErrorCode.UNSUPPORTED_TYPE,
+					`${typeof key} is unsupported dictionary key type.`,
+					[ ...this._path ],
+				);
+			}
+
+			const name = typeof key === 'string' ? key : Bytes.toString(key);
+			this._path.push(name);
+			const serialized = this._serialize(value, name);
+			this._path.pop();
+
+			if (serialized.value === null || serialized.value === undefined) {
+				continue;
+			}
+
+			entries.push([ typeof key === 'string' ? Bytes.fromString(key) : key, serialized ]);
+		}
+
+		return this._openEntries(data, entries);
+	}
+
+	/**
+	 * Marks a list or dictionary as being encoded, until its frame ends.
+	 *
+	 * @param data - The array, iterable, object or Map, or an object converted by a serialization hook.
+	 * @throws {BencodeEncodeError} With code `CIRCULAR_REFERENCE` if it is already being encoded.
+	 */
+	private _visit(data: object): void {
 		if (this._visited.has(data)) {
 			throw new BencodeEncodeError(
 				BencodeErrorCode.CIRCULAR_REFERENCE,
@@ -271,25 +509,107 @@ export class BencodeEncoder {
 				[ ...this._path ],
 			);
 		}
+
 		this._visited.add(data);
+	}
 
-		this._buffer.push(this._dictionaryIdentifier);
+	/**
+	 * Converts a value with the custom serialization hooks before it is encoded.
+	 *
+	 * Objects are converted by the first matching entry of `serializers`, or else by their
+	 * own `[BENCODE_SERIALIZE]()` or `toBencode()` method. The result is passed to `replacer`.
+	 * The path must lead to the value when this is called.
+	 *
+	 * @param data - The value.
+	 * @param key - The dictionary key or list index of the value, `''` for the root value.
+	 * @returns The value to encode, or `null`/`undefined` to skip it, and the object it was
+	 *   converted from, which is tracked for circular references while the value is encoded.
+	 */
+	private _serialize(data: unknown, key: string | number): ISerializedValue {
+		let value = data;
+		let original: object | null = null;
 
-		const keys = Object.keys(data).sort();
+		if (typeof data === 'object' && data !== null) {
+			value = this._serializeObject(data);
+			original = value === data ? null : data;
+		}
 
-		for (const key of keys) {
-			if (data[key] === null || data[key] === undefined) {
-				continue;
+		if (this._options.replacer) {
+			value = this._options.replacer(key, value, [ ...this._path ]);
+		}
+
+		return { value: value as BencodeEncodableValue, original };
+	}
+
+	/**
+	 * Converts an object with a registered serializer or its own serialization method.
+	 *
+	 * @param data - The object.
+	 * @returns The converted value, or the object itself if nothing converts it.
+	 */
+	private _serializeObject(data: object): unknown {
+		for (const [ type, serializer ] of this._options.serializers || []) {
+			if (data instanceof type) {
+				return (serializer as (value: object) => unknown)(data);
 			}
+		}
 
-			this._encodeString(key);
-			this._path.push(key);
-			this._encodeType(data[key]);
-			this._path.pop();
+		const serializable = data as { [BENCODE_SERIALIZE]?: unknown; toBencode?: unknown };
+
+		if (typeof serializable[BENCODE_SERIALIZE] === 'function') {
+			return serializable[BENCODE_SERIALIZE]();
+		}
+		if (typeof serializable.toBencode === 'function') {
+			return serializable.toBencode();
 		}
 
-		this._buffer.push(this._endIdentifier);
-		this._visited.delete(data);
+		return data;
+	}
+
+	/**
+	 * Sorts dictionary entries by the raw bytes of their keys and starts the dictionary.
+	 *
+	 * @param source - The object or Map.
+	 * @param entries - The encoded keys and their values. Sorted in place.
+	 * @returns The frame of the dictionary, whose entries {@link _nextEntry} yields.
+	 */
+	private _openEntries(source: object, entries: Array<[Uint8Array, ISerializedValue]>): IDictionaryFrame {
+		entries.sort(([ a ], [ b ]) => Bytes.compare(a, b));
+		this._buffer.push(this._dictionaryIdentifier);
+
+		return { type: 'dictionary', source, original: null, entries, index: 0 };
+	}
+
+	/**
+	 * Writes the key of the next dictionary entry.
+	 *
+	 * @param frame - The dictionary.
+	 * @returns The value of the entry, with its key added to the path, or `done` at the end
+	 *   of the dictionary.
+	 * @throws {BencodeEncodeError} With code `DUPLICATE_KEY` if `strict: true` and two keys
+	 *   are equal, which `decode()` with `strict: true` would reject.
+	 */
+	private _nextEntry(frame: IDictionaryFrame): IteratorResult<ISerializedValue, undefined> {
+		const i = frame.index++;
+
+		if (i === frame.entries.length) {
+			return { done: true, value: undefined };
+		}
+
+		const [ key, value ] = frame.entries[i];
+
+		if (this._options.strict && i > 0 && Bytes.compare(frame.entries[i - 1][0], key) === 0) {
+			throw new BencodeEncodeError(
+				BencodeErrorCode.DUPLICATE_KEY,
+				`Dictionary key '${Bytes.toString(key)}' is repeated.`,
+				[ ...this._path ],
+			);
+		}
+
+		this._encodeBytes(key);
+		this._path.push(Bytes.toString(key));
+
+		return { done: false, value };
 	}
 
 }
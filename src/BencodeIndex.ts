@@ -0,0 +1,140 @@
+/**
+ * Structural offset index of bencode data, used by {@link BencodeView}.
+ *
+ * Every value is a node, numbered in input (depth-first) order, with the `[start, end)`
+ * byte offsets of its encoded form. Dictionary keys are nodes too and alternate with the
+ * values of their dictionary, but their offsets cover only the key content, without the
+ * length prefix. Offsets are kept in typed arrays, 8 bytes per node, so inputs are limited
+ * to 4 GiB.
+ *
+ * @internal
+ */
+export class BencodeIndex {
+
+	/** Largest offset the index can hold */
+	public static readonly MAX_OFFSET = 0xFFFFFFFF;
+
+	/** Start offset of every node */
+	private _starts: Uint32Array;
+
+	/** End offset of every node */
+	private _ends: Uint32Array;
+
+	/** Number of nodes */
+	private _count: number;
+
+	/**
+	 * Creates a new, empty BencodeIndex instance.
+	 *
+	 * @param capacity - Number of nodes to allocate room for. The index grows as needed,
+	 *   and {@link trim} releases what is left over.
+	 */
+	public constructor(capacity = 1024) {
+		this._starts = new Uint32Array(capacity);
+		this._ends = new Uint32Array(capacity);
+		this._count = 0;
+	}
+
+	/**
+	 * Gets the number of nodes.
+	 *
+	 * @returns The number of indexed nodes.
+	 */
+	public get count(): number {
+		return this._count;
+	}
+
+	/**
+	 * Adds a node whose end is not known yet.
+	 *
+	 * @param start - Offset of the node's first byte.
+	 * @returns The new node.
+	 */
+	public open(start: number): number {
+		if (this._count === this._starts.length) {
+			this._grow();
+		}
+
+		this._starts[this._count] = start;
+
+		return this._count++;
+	}
+
+	/**
+	 * Sets the end of a node added with {@link open}.
+	 *
+	 * @param node - The node.
+	 * @param end - Offset just after the node's last byte.
+	 */
+	public close(node: number, end: number): void {
+		this._ends[node] = end;
+	}
+
+	/**
+	 * Gets the start offset of a node.
+	 *
+	 * @param node - The node.
+	 * @returns Offset of the node's first byte.
+	 */
+	public start(node: number): number {
+		return this._starts[node];
+	}
+
+	/**
+	 * Gets the end offset of a node.
+	 *
+	 * @param node - The node.
+	 * @returns Offset just after the node's last byte.
+	 */
+	public end(node: number): number {
+		return this._ends[node];
+	}
+
+	/**
+	 * Gets the node following a node and all nodes nested in it.
+	 *
+	 * @param node - The node.
+	 * @returns The next sibling of `node`, or the next node after its parent if it is the
+	 *   last child, or {@link count} if there is none.
+	 */
+	public next(node: number): number {
+		const end = this._ends[node];
+		let low = node + 1;
+		let high = this._count;
+
+		// nested nodes start before `end` and following nodes at or after it
+		while (low < high) {
+			const middle = (low + high) >>> 1;
+
+			if (this._starts[middle] < end) {
+				low = middle + 1;
+			}
+			else {
+				high = middle;
+			}
+		}
+
+		return low;
+	}
+
+	/**
+	 * Releases the capacity left over by growing, once every node is added.
+	 */
+	public trim(): void {
+		this._starts = this._starts.slice(0, this._count);
+		this._ends = this._ends.slice(0, this._count);
+	}
+
+	/**
+	 * Doubles the capacity of the offset arrays.
+	 */
+	private _grow(): void {
+		const starts = new Uint32Array(this._starts.length * 2);
+		const ends = new Uint32Array(this._ends.length * 2);
+		starts.set(this._starts);
+		ends.set(this._ends);
+		this._starts = starts;
+		this._ends = ends;
+	}
+
+}
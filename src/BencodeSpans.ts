@@ -0,0 +1,254 @@
+import { IBencodecOptions } from './types';
+
+/**
+ * A decoded node and the bytes it was decoded from.
+ *
+ * @internal
+ */
+export interface IBencodeSpanEntry {
+	/** Dictionary key or list index of the node in its parent, unused for the root value */
+	key: string | number;
+	/** Offset of the node's first byte */
+	start: number;
+	/** Offset just after the node's last byte */
+	end: number;
+	/** Index of the enclosing list or dictionary entry, or `-1` for the root value */
+	parent: number;
+}
+
+/**
+ * Byte offsets of every value in decoded bencode data.
+ *
+ * Returned by `decodeWithSpans()`. Each decoded value (the root, every list item and every
+ * dictionary value) is addressed by its path: dictionary keys as strings and list indices
+ * as numbers, with `[]` for the root value. Spans are half-open `[start, end)` byte ranges
+ * in the input, so `data.subarray(start, end)` yields the exact original bytes of a value.
+ *
+ * Repeated dictionary keys follow the `duplicateKeys` option used for decoding: the span of
+ * the first or the last value is kept, and with `'collect'` each collected value has its own
+ * span at its index in the list (the list itself was not decoded from the input and has none).
+ *
+ * @example
+ * ```typescript
+ * import { decodeWithSpans } from 'bencodec';
+ *
+ * const { value, spans } = decodeWithSpans(torrentBytes);
+ *
+ * // Hash the original bytes of the info dictionary
+ * const [ start, end ] = spans.get([ 'info' ])!;
+ * const infoHash = sha1(torrentBytes.subarray(start, end));
+ *
+ * // Locate the value containing a byte offset
+ * spans.pathAt(start + 1);  // ['info']
+ * ```
+ */
+export class BencodeSpans {
+
+	/**
+	 * Builds the lookup key of a child entry.
+	 *
+	 * @param parent - Index of the parent entry.
+	 * @param key - Dictionary key or list index of the child.
+	 * @returns The lookup key, distinguishing string keys from list indices.
+	 */
+	private static _childKey(parent: number, key: string | number): string {
+		return `${parent} ${JSON.stringify(key)}`;
+	}
+
+	/** Entries in input order, which is also depth-first order */
+	private readonly _entries: Array<IBencodeSpanEntry>;
+
+	/**
+	 * Indices of entries by parent index and serialized key. Lists of collected values
+	 * have indices from `_entries.length` on, without an entry.
+	 */
+	private readonly _children: Map<string, number>;
+
+	/** Positions of collected values in their list by entry index */
+	private readonly _collected: Map<number, number>;
+
+	/** Number of entries reachable by path */
+	private readonly _size: number;
+
+	/**
+	 * Creates a new BencodeSpans instance.
+	 *
+	 * @param entries - The decoded nodes, ordered by start offset.
+	 * @param duplicateKeys - The policy the dictionaries were decoded with (default: `'last'`).
+	 *
+	 * @internal
+	 */
+	public constructor(entries: Array<IBencodeSpanEntry>, duplicateKeys: IBencodecOptions['duplicateKeys'] = 'last') {
+		this._entries = entries;
+		this._children = new Map();
+		this._collected = new Map();
+
+		// lookup key of every entry, `null` for dropped values of repeated keys
+		const slots: Array<string | null> = entries.map(() => null);
+		const lengths: Array<number> = [];
+
+		entries.forEach((entry, index) => {
+			if (entry.parent === -1) {
+				return;
+			}
+
+			const slot = BencodeSpans._childKey(entry.parent, entry.key);
+			const first = this._children.get(slot);
+
+			if (first === undefined || (duplicateKeys !== 'first' && duplicateKeys !== 'collect')) {
+				this._children.set(slot, index);
+				slots[index] = slot;
+			}
+			else if (duplicateKeys === 'collect') {
+				slots[index] = this._collect(slot, first, index, lengths, slots);
+			}
+		});
+
+		const reachable = entries.map(() => false);
+		let size = 0;
+
+		entries.forEach((entry, index) => {
+			const slot = slots[index];
+			reachable[index] = entry.parent === -1
+				|| (reachable[entry.parent] && slot !== null && this._children.get(slot) === index);
+			size += Number(reachable[index]);
+		});
+
+		this._size = size;
+	}
+
+	/**
+	 * Gets the number of decoded values.
+	 *
+	 * @returns The number of values with a span, including the root value.
+	 */
+	public get size(): number {
+		return this._size;
+	}
+
+	/**
+	 * Gets the span of the value at `path`.
+	 *
+	 * @param path - Dictionary keys and list indices leading to the value. `[]` is the root value.
+	 *
+	 * @returns The `[start, end)` byte offsets of the value, or `undefined` if no value
+	 *   exists at `path`.
+	 *
+	 * @example
+	 * ```typescript
+	 * const { spans } = decodeWithSpans('d3:fooli1ei2eee');
+	 * spans.get([]);            // [0, 15]
+	 * spans.get(['foo']);       // [6, 14]
+	 * spans.get(['foo', 1]);    // [10, 13]
+	 * spans.get(['bar']);       // undefined
+	 * ```
+	 */
+	public get(path: (string | number)[]): [number, number] | undefined {
+		let index: number | undefined = 0;
+
+		for (let i = 0; i < path.length && index !== undefined; i++) {
+			index = this._children.get(BencodeSpans._childKey(index, path[i]));
+		}
+
+		const entry = index === undefined ? undefined : this._entries[index];
+
+		return entry && [ entry.start, entry.end ];
+	}
+
+	/**
+	 * Gets the path of the innermost value containing the byte at `offset`.
+	 *
+	 * Bytes of a dictionary key and of the `l`, `d` and `e` markers belong to the
+	 * enclosing list or dictionary.
+	 *
+	 * @param offset - A byte offset in the input.
+	 *
+	 * @returns The path of the innermost value whose span contains `offset`, or `undefined`
+	 *   if `offset` is outside the decoded value.
+	 *
+	 * @example
+	 * ```typescript
+	 * const { spans } = decodeWithSpans('d3:fooli1ei2eee');
+	 * spans.pathAt(11);  // ['foo', 1]
+	 * spans.pathAt(2);   // [] (inside the key 'foo')
+	 * spans.pathAt(15);  // undefined
+	 * ```
+	 */
+	public pathAt(offset: number): (string | number)[] | undefined {
+		// find the last entry starting at or before offset
+		let low = 0;
+		let high = this._entries.length - 1;
+		let index = -1;
+
+		while (low <= high) {
+			const middle = (low + high) >>> 1;
+
+			if (this._entries[middle].start <= offset) {
+				index = middle;
+				low = middle + 1;
+			}
+			else {
+				high = middle - 1;
+			}
+		}
+
+		// spans are nested, so the innermost span containing offset is found among its ancestors
+		while (index !== -1 && this._entries[index].end <= offset) {
+			index = this._entries[index].parent;
+		}
+
+		return index === -1 ? undefined : this._path(index);
+	}
+
+	/**
+	 * Adds the value of a repeated key to the list of values collected for that key.
+	 *
+	 * @param slot - Lookup key of the repeated key.
+	 * @param first - Index of the entry or list the key maps to.
+	 * @param index - Index of the entry of the repeated value.
+	 * @param lengths - Number of values of each list, by list index minus `_entries.length`.
+	 * @param slots - Lookup keys of the entries seen so far, updated for the first value.
+	 * @returns The lookup key of the entry in the list.
+	 */
+	private _collect(slot: string, first: number, index: number, lengths: Array<number>, slots: Array<string | null>): string {
+		let list = first;
+
+		if (first < this._entries.length) {
+			list = this._entries.length + lengths.push(1) - 1;
+			this._children.set(slot, list);
+			const firstSlot = BencodeSpans._childKey(list, 0);
+			this._children.set(firstSlot, first);
+			slots[first] = firstSlot;
+			this._collected.set(first, 0);
+		}
+
+		const position = lengths[list - this._entries.length]++;
+		const itemSlot = BencodeSpans._childKey(list, position);
+		this._children.set(itemSlot, index);
+		this._collected.set(index, position);
+
+		return itemSlot;
+	}
+
+	/**
+	 * Builds the path of an entry from its ancestors.
+	 *
+	 * @param index - Index of the entry.
+	 * @returns Dictionary keys and list indices leading from the root value to the entry.
+	 */
+	private _path(index: number): (string | number)[] {
+		const path: (string | number)[] = [];
+
+		for (let i = index; this._entries[i].parent !== -1; i = this._entries[i].parent) {
+			const position = this._collected.get(i);
+
+			if (position !== undefined) {
+				path.push(position);
+			}
+			path.push(this._entries[i].key);
+		}
+
+		return path.reverse();
+	}
+
+}
@@ -0,0 +1,508 @@
+import { BencodeDecodedValue, FLAG, IBencodecOptions } from './types';
+import { BencodeDecoder } from './BencodeDecoder';
+import { BencodeDecodeError, BencodeErrorCode } from './errors';
+import { Bytes } from './bytes';
+
+/**
+ * States of the incremental scanner used by {@link BencodeStreamDecoder}.
+ */
+enum ScanState {
+	/** Expecting the type marker of the next value, or `e` closing a list or dictionary */
+	VALUE,
+	/** Inside an integer, waiting for its terminating `e` */
+	INTEGER,
+	/** Reading the digits of a string length prefix */
+	STRING_LENGTH,
+	/** Skipping the remaining content bytes of a string */
+	STRING,
+}
+
+/**
+ * A list or dictionary being scanned by {@link BencodeStreamDecoder}.
+ */
+interface IScanFrame {
+	/** Whether the container is a dictionary, whose strings alternate between keys and values */
+	isDictionary: boolean;
+
+	/** Number of items, or of keys and values, scanned so far */
+	count: number;
+}
+
+/**
+ * Push-based decoder for a stream of concatenated bencode values.
+ *
+ * Chunks of arbitrary size (e.g. TCP segments or UDP datagrams) are fed with {@link push},
+ * which returns every top-level value completed by that chunk. Partial values are kept
+ * between chunks: the decoder remembers where it stopped scanning and continues from there,
+ * so earlier bytes are never re-parsed while waiting for the rest of a value.
+ *
+ * Completed values are decoded with {@link BencodeDecoder} and honor the same
+ * {@link IBencodecOptions}. The `maxDepth`, `maxStringLength`, `maxIntegerDigits`, `maxListLength`,
+ * `maxDictKeys`, `maxNodes` and `maxTotalBytes` limits and the safe integer range are also
+ * checked while scanning, so oversized input is rejected as soon as it arrives rather
+ * than after it has been buffered. `maxTotalBytes` applies to each top-level value, so a
+ * long-lived stream may carry any number of values within the limit.
+ *
+ * @example
+ * ```typescript
+ * import { BencodeStreamDecoder } from 'bencodec';
+ *
+ * const decoder = new BencodeStreamDecoder({ stringify: true, maxDepth: 32 });
+ *
+ * decoder.push('d1:ai');        // []
+ * decoder.push('1ee4:spam');    // [{ a: 1 }, 'spam']
+ * decoder.push('li1');          // []
+ * decoder.push('ei2ee');        // [[1, 2]]
+ * decoder.end();                // []
+ * ```
+ *
+ * @remarks
+ * Error positions are absolute offsets in the stream, counted from the first byte
+ * ever pushed. After an error the decoder is unusable: every following call rethrows
+ * the same error.
+ *
+ * The `strict` option validates dictionary key order within each value. Trailing data is
+ * not an error, since a stream is a sequence of values.
+ */
+export class BencodeStreamDecoder {
+
+	/**
+	 * Checks if a byte value represents an ASCII digit (0-9).
+	 *
+	 * @param char - The byte value to check
+	 * @returns `true` if the byte is an ASCII digit (0x30-0x39)
+	 */
+	private static _isInteger(char: number): boolean {
+		return char >= 0x30 && char <= 0x39;
+	}
+
+	/** Current scanner state */
+	private _state: ScanState;
+
+	/** Lists and dictionaries enclosing the scan position, innermost last */
+	private _containers: Array<IScanFrame>;
+
+	/** Number of values of the current top-level value scanned so far, without dictionary keys */
+	private _nodeCount: number;
+
+	/** Length prefix being read, then the number of string bytes left to skip */
+	private _stringLength: number;
+
+	/** Whether the integer or length prefix being read has reached a (non-standard) decimal point */
+	private _isFloat: boolean;
+
+	/** Number of digits and decimal points of the integer being read */
+	private _integerDigits: number;
+
+	/** Integral value of the integer being read, without its sign */
+	private _integer: number;
+
+	/** Whether the scanner has reached the end of a top-level value */
+	private _isComplete: boolean;
+
+	/** Bytes of the current top-level value received in earlier chunks */
+	private _pending: Array<Uint8Array>;
+
+	/** Absolute stream position of the first byte of the current top-level value */
+	private _offset: number;
+
+	/** Number of bytes of the current top-level value received in earlier chunks */
+	private _received: number;
+
+	/** Whether only the first top-level value is decoded, as `decode()` does */
+	private readonly _single: boolean;
+
+	/** Whether the first top-level value has been decoded in single-value mode */
+	private _isDone: boolean;
+
+	/** The error that stopped the decoder, rethrown on every following call */
+	private _error: unknown;
+
+	/** Decoding options */
+	private readonly _options: IBencodecOptions;
+
+	/**
+	 * Creates a new BencodeStreamDecoder instance.
+	 *
+	 * @param options - Configuration options applied to every decoded value.
+	 * @param single - Decode only the first value, like `decode()`: later bytes are ignored, or
+	 *   rejected with `TRAILING_DATA` if `strict` is set (default: `false`).
+	 */
+	public constructor(options?: IBencodecOptions, single = false) {
+		this._state = ScanState.VALUE;
+		this._containers = [];
+		this._nodeCount = 0;
+		this._stringLength = 0;
+		this._isFloat = false;
+		this._integerDigits = 0;
+		this._integer = 0;
+		this._isComplete = false;
+		this._pending = [];
+		this._offset = 0;
+		this._received = 0;
+		this._single = single;
+		this._isDone = false;
+		this._error = null;
+		this._options = options || { };
+	}
+
+	/**
+	 * Feeds the next chunk of the stream to the decoder.
+	 *
+	 * @param chunk - The next bytes of the stream. Strings are converted to Uint8Array internally.
+	 *
+	 * @returns The top-level values completed by this chunk, in stream order. Empty if the
+	 *   chunk only continues or starts a value.
+	 *
+	 * @throws {BencodeDecodeError} For malformed data or exceeded limits, with the same codes
+	 *   as `decode()` and the absolute stream position of the failure.
+	 * @throws {BencodeDecodeError} With code `MAX_TOTAL_BYTES_EXCEEDED` if a single top-level value
+	 *   grows beyond `maxTotalBytes`.
+	 */
+	public push(chunk: Uint8Array | string): Array<BencodeDecodedValue> {
+		this._assertUsable();
+
+		const bytes = typeof chunk === 'string' ? Bytes.fromString(chunk) : chunk;
+		const values: Array<BencodeDecodedValue> = [];
+		let start = 0;
+		let index = 0;
+
+		try {
+			while (index < bytes.length && !this._isDone) {
+				index = this._scan(bytes, index);
+				this._checkSize(index - start);
+
+				if (this._isComplete) {
+					values.push(this._decodePending(bytes.subarray(start, index)));
+					start = index;
+				}
+			}
+
+			if (this._isDone && this._options.strict && start < bytes.length) {
+				new BencodeDecoder(bytes.subarray(start), this._options, this._offset).checkEnd();
+			}
+		}
+		catch (error) {
+			this._error = error;
+			throw error;
+		}
+
+		if (start < bytes.length && !this._isDone) {
+			this._pending.push(bytes.subarray(start));
+			this._received += bytes.length - start;
+		}
+
+		return values;
+	}
+
+	/**
+	 * Signals the end of the stream.
+	 *
+	 * Decodes whatever is left of the last value. Incomplete data is reported the same way
+	 * `decode()` reports truncated input.
+	 *
+	 * @returns The value completed by the end of the stream, if any (for example a string
+	 *   length prefix without content, which is read leniently as an empty string).
+	 *
+	 * @throws {BencodeDecodeError} With code `UNEXPECTED_END` if the stream ends inside a value.
+	 */
+	public end(): Array<BencodeDecodedValue> {
+		this._assertUsable();
+
+		if (this._pending.length === 0) {
+			return [];
+		}
+
+		try {
+			return [ this._decodePending(new Uint8Array(0)) ];
+		}
+		catch (error) {
+			this._error = error;
+			throw error;
+		}
+	}
+
+	/**
+	 * Gets the absolute stream position up to which values have been emitted.
+	 *
+	 * @returns The number of bytes consumed by completed top-level values.
+	 */
+	public getCurrentPosition(): number {
+		return this._offset;
+	}
+
+	/**
+	 * Rethrows the error that previously stopped the decoder, if any.
+	 */
+	private _assertUsable(): void {
+		if (this._error) {
+			throw this._error;
+		}
+	}
+
+	/**
+	 * Checks the size of the current top-level value against `maxTotalBytes`.
+	 *
+	 * @param length - Number of bytes of the value scanned in the current chunk.
+	 *
+	 * @throws {BencodeDecodeError} With code `MAX_TOTAL_BYTES_EXCEEDED` if the value exceeds the limit.
+	 */
+	private _checkSize(length: number): void {
+		const max = this._options.maxTotalBytes;
+
+		if (max && this._received + length > max) {
+			throw new BencodeDecodeError(
+				BencodeErrorCode.MAX_TOTAL_BYTES_EXCEEDED,
+				`Value size exceeds maximum ${max}`,
+				this._offset + max,
+			);
+		}
+	}
+
+	/**
+	 * Advances the scanner by at least one byte.
+	 *
+	 * @param bytes - The chunk being scanned.
+	 * @param index - Position of the next unscanned byte in the chunk.
+	 * @returns Position of the next unscanned byte after this step.
+	 */
+	private _scan(bytes: Uint8Array, index: number): number {
+		switch (this._state) {
+			case ScanState.VALUE:
+				return this._scanValue(bytes[index], index);
+			case ScanState.INTEGER:
+				return this._scanInteger(bytes[index], index);
+			case ScanState.STRING_LENGTH:
+				return this._scanStringLength(bytes[index], index);
+			default:
+				return this._scanString(bytes.length, index);
+		}
+	}
+
+	/**
+	 * Scans the type marker of the next value or the end of a container.
+	 *
+	 * @param char - The byte at `index`.
+	 * @param index - Position of the byte in the chunk.
+	 * @returns Position of the next unscanned byte.
+	 */
+	private _scanValue(char: number, index: number): number {
+		if (char === FLAG.END && this._containers.length > 0) {
+			this._containers.pop();
+			this._endValue();
+
+			return index + 1;
+		}
+
+		if (!this._countValue()) {
+			return this._fail(index);
+		}
+
+		if (BencodeStreamDecoder._isInteger(char)) {
+			this._state = ScanState.STRING_LENGTH;
+			this._stringLength = 0;
+			this._isFloat = false;
+
+			return index;
+		}
+
+		if (char === FLAG.INTEGER) {
+			this._state = ScanState.INTEGER;
+			this._integerDigits = 0;
+			this._integer = 0;
+			this._isFloat = false;
+
+			return index + 1;
+		}
+
+		if (char === FLAG.LIST || char === FLAG.DICTIONARY) {
+			this._containers.push({ isDictionary: char === FLAG.DICTIONARY, count: 0 });
+
+			if (this._options.maxDepth && this._containers.length > this._options.maxDepth) {
+				return this._fail(index);
+			}
+
+			return index + 1;
+		}
+
+		return this._fail(index);
+	}
+
+	/**
+	 * Counts the value starting at the scan position against `maxListLength`, `maxDictKeys`
+	 * and `maxNodes`, the way the decoder counts it.
+	 *
+	 * @returns `false` if the value exceeds one of the limits.
+	 */
+	private _countValue(): boolean {
+		const { maxListLength, maxDictKeys, maxNodes } = this._options;
+		const container = this._containers[this._containers.length - 1];
+		const isKey = container !== undefined && container.isDictionary && container.count % 2 === 0;
+
+		if (container) {
+			container.count++;
+			const limit = container.isDictionary ? maxDictKeys : maxListLength;
+			const size = container.isDictionary ? Math.ceil(container.count / 2) : container.count;
+
+			if (limit && size > limit) {
+				return false;
+			}
+		}
+
+		if (!isKey) {
+			this._nodeCount++;
+		}
+
+		return !maxNodes || this._nodeCount <= maxNodes;
+	}
+
+	/**
+	 * Scans a byte of an integer body.
+	 *
+	 * Stops at the digit that exceeds `maxIntegerDigits` (4300 if not set), or that takes the
+	 * value past `Number.MAX_SAFE_INTEGER` unless integers are decoded as `bigint`, so huge
+	 * integers are rejected before they are buffered.
+	 *
+	 * @param char - The byte at `index`.
+	 * @param index - Position of the byte in the chunk.
+	 * @returns Position of the next unscanned byte.
+	 */
+	private _scanInteger(char: number, index: number): number {
+		if (char === FLAG.END) {
+			this._endValue();
+
+			return index + 1;
+		}
+
+		if (char === FLAG.MINUS || char === FLAG.PLUS) {
+			return index + 1;
+		}
+
+		if (char === FLAG.DOT) {
+			this._isFloat = true;
+		}
+		else if (!BencodeStreamDecoder._isInteger(char)) {
+			return this._fail(index);
+		}
+		else if (!this._isFloat) {
+			this._integer = (this._integer * 10) + (char - 0x30);
+		}
+
+		const { integers, maxIntegerDigits } = this._options;
+		const isUnsafe = integers !== 'bigint' && integers !== 'auto' && this._integer > Number.MAX_SAFE_INTEGER;
+
+		return ++this._integerDigits > (maxIntegerDigits || BencodeDecoder.DEFAULT_MAX_INTEGER_DIGITS) || isUnsafe
+			? this._fail(index)
+			: index + 1;
+	}
+
+	/**
+	 * Scans a byte of a string length prefix.
+	 *
+	 * Mirrors the decoder's lenient handling: a decimal point truncates the length and a
+	 * missing `:` delimiter starts the content at the first non-digit byte.
+	 *
+	 * @param char - The byte at `index`.
+	 * @param index - Position of the byte in the chunk.
+	 * @returns Position of the next unscanned byte.
+	 */
+	private _scanStringLength(char: number, index: number): number {
+		if (char === FLAG.DOT) {
+			this._isFloat = true;
+
+			return index + 1;
+		}
+
+		if (BencodeStreamDecoder._isInteger(char)) {
+			if (!this._isFloat) {
+				this._stringLength = (this._stringLength * 10) + (char - 0x30);
+			}
+
+			return this._stringLength > Number.MAX_SAFE_INTEGER
+				? this._fail(index)
+				: index + 1;
+		}
+
+		const contentStart = char === FLAG.STR_DELIMITER ? index + 1 : index;
+
+		if (this._options.maxStringLength && this._stringLength > this._options.maxStringLength) {
+			return this._fail(index);
+		}
+
+		this._state = ScanState.STRING;
+
+		if (this._stringLength === 0) {
+			this._endValue();
+		}
+
+		return contentStart;
+	}
+
+	/**
+	 * Skips as much of a string's content as the chunk holds.
+	 *
+	 * @param length - Length of the chunk.
+	 * @param index - Position of the first unscanned content byte in the chunk.
+	 * @returns Position of the next unscanned byte.
+	 */
+	private _scanString(length: number, index: number): number {
+		const available = Math.min(this._stringLength, length - index);
+		this._stringLength -= available;
+
+		if (this._stringLength === 0) {
+			this._endValue();
+		}
+
+		return index + available;
+	}
+
+	/**
+	 * Marks the end of a value and detects the end of a top-level value.
+	 */
+	private _endValue(): void {
+		this._state = ScanState.VALUE;
+		this._isComplete = this._containers.length === 0;
+	}
+
+	/**
+	 * Stops scanning at a byte the decoder cannot accept.
+	 *
+	 * Ends the current top-level value after the offending byte, so that decoding it raises
+	 * the same error `decode()` would raise for this input.
+	 *
+	 * @param index - Position of the offending byte in the chunk.
+	 * @returns Position just after the offending byte.
+	 */
+	private _fail(index: number): number {
+		this._isComplete = true;
+
+		return index + 1;
+	}
+
+	/**
+	 * Decodes the current top-level value and resets the scanner for the next one.
+	 *
+	 * @param tail - Bytes of the value contained in the current chunk.
+	 * @returns The decoded value.
+	 */
+	private _decodePending(tail: Uint8Array): BencodeDecodedValue {
+		const data = this._pending.length === 0
+			? tail
+			: Bytes.concat([ ...this._pending, tail ]);
+
+		const decoder = new BencodeDecoder(data, this._options, this._offset);
+		const value = decoder.decode();
+
+		this._offset += data.length;
+		this._pending = [];
+		this._received = 0;
+		this._state = ScanState.VALUE;
+		this._containers = [];
+		this._nodeCount = 0;
+		this._isComplete = false;
+		this._isDone = this._single;
+
+		return value;
+	}
+
+}
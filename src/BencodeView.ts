@@ -0,0 +1,367 @@
+import { BencodeDecodedValue, FLAG, IBencodecOptions } from './types';
+import { BencodeDecoder } from './BencodeDecoder';
+import { BencodeIndex } from './BencodeIndex';
+import { BencodeDecodeError, BencodeErrorCode } from './errors';
+import { Bytes, ByteEncoding } from './bytes';
+
+/**
+ * Lazy, read-only view of bencode data.
+ *
+ * Construction scans the input once, validating it and building an offset index. No lists,
+ * dictionaries or strings are created until they are accessed, and child views share the
+ * input and the index.
+ *
+ * The index takes 8 bytes per value and per dictionary key, on top of the input. For
+ * typical data such as torrents, where long strings dominate, that is a small fraction of
+ * the input size. Data made of tiny values costs more: a list of `i0e` needs an index
+ * about 2.7 times the input size, and empty strings (`0:`) up to 4 times.
+ *
+ * @example
+ * ```typescript
+ * import { BencodeView } from 'bencodec';
+ *
+ * const torrent = new BencodeView(await readFile('huge.torrent'), { stringify: true });
+ * const info = torrent.get('info')!;
+ *
+ * info.get('name')?.value;  // 'ubuntu.iso'
+ *
+ * for (const file of info.get('files')!) {
+ *   console.log(file.get('length')?.value);
+ * }
+ *
+ * info.raw;  // original bytes of the info dictionary, e.g. for the info-hash
+ * ```
+ *
+ * @remarks
+ * Values are materialized with the view's {@link IBencodecOptions}. Keys such as `__proto__`
+ * that `decode()` drops with `unsafeKeys: 'ignore'` are skipped by every dictionary method. `raw` and string values
+ * decoded with `copy: false` share memory with the input.
+ */
+export class BencodeView {
+
+	/**
+	 * Creates a view of another node of the same data, without scanning it again.
+	 *
+	 * @param parent - The view of the enclosing list or dictionary.
+	 * @param node - Index node of the viewed value.
+	 * @param key - List index or raw dictionary key of the value in `parent`.
+	 * @returns A view sharing the input and the index of `parent`.
+	 */
+	private static _child(parent: BencodeView, node: number, key: number | Uint8Array): BencodeView {
+		const view = Object.create(BencodeView.prototype) as BencodeView;
+		view._buffer = parent._buffer;
+		view._options = parent._options;
+		view._index = parent._index;
+		view._node = node;
+		view._parent = parent;
+		view._key = key;
+
+		return view;
+	}
+
+	/** The bencode data */
+	private _buffer: Uint8Array;
+
+	/** Decoding options for materialized values */
+	private _options: IBencodecOptions;
+
+	/** Offset index of the data, shared by all views of it */
+	private _index: BencodeIndex;
+
+	/** Index node of the value of this view */
+	private _node: number;
+
+	/** View of the enclosing list or dictionary, `null` for the root value */
+	private _parent: BencodeView | null;
+
+	/** List index or raw dictionary key of the value in its parent, converted only for `stringify` paths */
+	private _key: number | Uint8Array;
+
+	/**
+	 * Creates a view of the root value of bencode data.
+	 *
+	 * @param data - The bencode data. Strings are converted to Uint8Array internally.
+	 * @param options - Decoding options, applied when scanning and when materializing values.
+	 *
+	 * @throws {BencodeDecodeError} With code `MAX_TOTAL_BYTES_EXCEEDED` if data exceeds 4 GiB,
+	 *   the most the offset index can address.
+	 * @throws {BencodeDecodeError} Any error `decode()` throws for the data.
+	 */
+	public constructor(data: Uint8Array | string, options?: IBencodecOptions) {
+		this._buffer = typeof data === 'string' ? Bytes.fromString(data) : data;
+		this._options = options || { };
+		this._node = 0;
+		this._parent = null;
+		this._key = 0;
+
+		if (this._buffer.length > BencodeIndex.MAX_OFFSET) {
+			throw new BencodeDecodeError(
+				BencodeErrorCode.MAX_TOTAL_BYTES_EXCEEDED,
+				`Input size ${this._buffer.length} exceeds maximum ${BencodeIndex.MAX_OFFSET}`,
+				BencodeIndex.MAX_OFFSET,
+			);
+		}
+
+		const decoder = new BencodeDecoder(this._buffer, { ...this._options, stringify: false, copy: false });
+		this._index = decoder.index();
+
+		if (this._options.strict) {
+			decoder.checkEnd();
+		}
+	}
+
+	/**
+	 * Gets the bencode type of the viewed value.
+	 *
+	 * @returns `'integer'`, `'string'`, `'list'` or `'dictionary'`.
+	 */
+	public get type(): 'integer' | 'string' | 'list' | 'dictionary' {
+		switch (this._buffer[this._index.start(this._node)]) {
+			case FLAG.INTEGER:
+				return 'integer';
+			case FLAG.LIST:
+				return 'list';
+			case FLAG.DICTIONARY:
+				return 'dictionary';
+			default:
+				return 'string';
+		}
+	}
+
+	/**
+	 * Gets the number of items of a list or entries of a dictionary.
+	 *
+	 * @returns The number of children, or `0` for integers and strings.
+	 */
+	public get length(): number {
+		let length = 0;
+
+		for (const _ of this._children()) {
+			length++;
+		}
+
+		return this.type === 'dictionary' ? length / 2 : length;
+	}
+
+	/**
+	 * Gets the original bytes of the viewed value.
+	 *
+	 * @returns A view into the input, without copying.
+	 */
+	public get raw(): Uint8Array {
+		return this._buffer.subarray(this._index.start(this._node), this._index.end(this._node));
+	}
+
+	/**
+	 * Decodes the viewed value.
+	 *
+	 * Each access decodes the value again, including all values nested in it.
+	 *
+	 * @returns The value as `decode()` returns it with the view's options.
+	 */
+	public get value(): BencodeDecodedValue {
+		const start = this._index.start(this._node);
+		const stringify = this._options.stringify;
+		// only path patterns and predicates depend on where the value is in the document
+		const path = Array.isArray(stringify) || typeof stringify === 'function' ? this._path() : [];
+		const decoder = new BencodeDecoder(this.raw, this._options, start, path);
+
+		return decoder.decode();
+	}
+
+	/**
+	 * Gets a view of a list item or dictionary value.
+	 *
+	 * @param key - A list index, or a dictionary key. String keys are compared with the
+	 *   encoding `decode()` uses for keys.
+	 *
+	 * @returns A view of the value, or `undefined` if there is none. If a dictionary repeats
+	 *   the key, the first value is returned with `duplicateKeys: 'first'`, the last otherwise.
+	 *
+	 * @example
+	 * ```typescript
+	 * const view = new BencodeView('d4:listli1ei2eee');
+	 * view.get('list')?.get(1)?.value;  // 2
+	 * view.get('missing');              // undefined
+	 * ```
+	 */
+	public get(key: string | number | Uint8Array): BencodeView | undefined {
+		const type = this.type;
+
+		if (type === 'list' && typeof key === 'number') {
+			let index = 0;
+
+			for (const child of this._children()) {
+				if (index++ === key) {
+					return this._view(child, key);
+				}
+			}
+
+			return undefined;
+		}
+
+		if (type !== 'dictionary' || typeof key === 'number') {
+			return undefined;
+		}
+
+		const keyBytes = typeof key === 'string' ? Bytes.fromString(key, this._keyEncoding()) : key;
+		let found: number | undefined;
+		let isKey = true;
+
+		for (const child of this._children()) {
+			if (isKey && Bytes.compare(this._bytes(child), keyBytes) === 0) {
+				found = child + 1;
+
+				if (this._options.duplicateKeys === 'first') {
+					break;
+				}
+			}
+			isKey = !isKey;
+		}
+
+		return found === undefined ? undefined : this._view(found, this._bytes(found - 1));
+	}
+
+	/**
+	 * Checks whether a list item or dictionary value exists.
+	 *
+	 * @param key - A list index or a dictionary key, as for {@link get}.
+	 * @returns `true` if {@link get} returns a view for `key`.
+	 */
+	public has(key: string | number | Uint8Array): boolean {
+		return this.get(key) !== undefined;
+	}
+
+	/**
+	 * Iterates over the keys of a dictionary, in input order.
+	 *
+	 * @returns The keys as strings, converted as `decode()` converts them. Nothing for other types.
+	 */
+	public *keys(): IterableIterator<string> {
+		for (const [ key ] of this.entries()) {
+			yield key;
+		}
+	}
+
+	/**
+	 * Iterates over the items of a list or the values of a dictionary, in input order.
+	 *
+	 * @returns Views of the children. Nothing for integers and strings.
+	 */
+	public *values(): IterableIterator<BencodeView> {
+		const isDictionary = this.type === 'dictionary';
+		let isKey = isDictionary;
+		let index = 0;
+
+		for (const child of this._children()) {
+			if (!isKey) {
+				yield this._view(child, isDictionary ? this._bytes(child - 1) : index++);
+			}
+			isKey = isDictionary && !isKey;
+		}
+	}
+
+	/**
+	 * Iterates over the entries of a dictionary, in input order.
+	 *
+	 * @returns Pairs of key and value view. Nothing for other types.
+	 */
+	public *entries(): IterableIterator<[string, BencodeView]> {
+		if (this.type !== 'dictionary') {
+			return;
+		}
+
+		let key = '';
+		let isKey = true;
+
+		for (const child of this._children()) {
+			if (isKey) {
+				key = Bytes.toString(this._bytes(child), this._keyEncoding());
+			}
+			else {
+				yield [ key, this._view(child, this._bytes(child - 1)) ];
+			}
+			isKey = !isKey;
+		}
+	}
+
+	/**
+	 * Iterates over the items of a list or the values of a dictionary.
+	 *
+	 * @returns The same iterator as {@link values}.
+	 */
+	public [Symbol.iterator](): IterableIterator<BencodeView> {
+		return this.values();
+	}
+
+	/**
+	 * Iterates over the index nodes of the children, including dictionary keys.
+	 *
+	 * Entries whose key `decode()` drops with `unsafeKeys: 'ignore'` are left out.
+	 *
+	 * @returns The child nodes, in input order.
+	 */
+	private *_children(): IterableIterator<number> {
+		const end = this._index.end(this._node);
+		const skipsUnsafe = this._options.unsafeKeys === 'ignore' && this._options.dictionaryType !== 'map' && this.type === 'dictionary';
+		let isKey = true;
+		let isSkipped = false;
+
+		for (let child = this._node + 1; child < this._index.count && this._index.start(child) < end; child = this._index.next(child)) {
+			if (skipsUnsafe && isKey) {
+				isSkipped = BencodeDecoder.UNSAFE_KEYS.has(Bytes.toString(this._bytes(child), this._keyEncoding()));
+			}
+
+			if (!isSkipped) {
+				yield child;
+			}
+			isKey = !isKey;
+		}
+	}
+
+	/**
+	 * Gets the indexed bytes of a node.
+	 *
+	 * @param node - The node.
+	 * @returns A view into the input.
+	 */
+	private _bytes(node: number): Uint8Array {
+		return this._buffer.subarray(this._index.start(node), this._index.end(node));
+	}
+
+	/**
+	 * Creates a view of another node of the same data.
+	 *
+	 * @param node - A child node.
+	 * @param key - List index or raw dictionary key of the child.
+	 * @returns A view sharing the input and the index.
+	 */
+	private _view(node: number, key: number | Uint8Array): BencodeView {
+		return BencodeView._child(this, node, key);
+	}
+
+	/**
+	 * Gets the path of the viewed value from the root value.
+	 *
+	 * @returns List indices and dictionary keys, with keys converted as `decode()` converts them.
+	 */
+	private _path(): Array<string | number> {
+		const path: Array<string | number> = [];
+
+		for (let view: BencodeView | null = this; view._parent; view = view._parent) {
+			path.push(typeof view._key === 'number' ? view._key : Bytes.toString(view._key, this._keyEncoding()));
+		}
+
+		return path.reverse();
+	}
+
+	/**
+	 * Gets the encoding of dictionary keys, as `decode()` converts them.
+	 *
+	 * @returns The configured encoding with `stringify` other than `'auto'`, UTF-8 otherwise.
+	 */
+	private _keyEncoding(): ByteEncoding {
+		return this._options.stringify && this._options.stringify !== 'auto' ? this._options.encoding || 'utf8' : 'utf8';
+	}
+
+}
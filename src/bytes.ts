@@ -13,6 +13,7 @@ export class Bytes {
 
 	private static readonly _encoder = new TextEncoder();
 	private static readonly _decoder = new TextDecoder();
+	private static readonly _strictDecoder = new TextDecoder('utf-8', { fatal: true, ignoreBOM: true });
 
 	/**
 	 * Convert a string to Uint8Array using the specified encoding.
@@ -68,6 +69,30 @@ export class Bytes {
 		return result;
 	}
 
+	/**
+	 * Convert Uint8Array to string if it is valid UTF-8.
+	 *
+	 * Unlike {@link toString}, invalid sequences are not replaced and a byte order mark is
+	 * kept, so the string encodes back to the same bytes.
+	 *
+	 * @param bytes - The byte array to convert
+	 * @returns The decoded string, or `null` if the bytes are not valid UTF-8
+	 *
+	 * @example
+	 * ```typescript
+	 * Bytes.tryToString(new Uint8Array([0x68, 0x69])); // 'hi'
+	 * Bytes.tryToString(new Uint8Array([0xff]));       // null
+	 * ```
+	 */
+	public static tryToString(bytes: Uint8Array): string | null {
+		try {
+			return Bytes._strictDecoder.decode(bytes);
+		}
+		catch {
+			return null;
+		}
+	}
+
 	/**
 	 * Concatenate multiple Uint8Arrays into a single Uint8Array.
 	 *
@@ -34,26 +34,62 @@ export enum BencodeErrorCode {
 	/** Invalid bencode format (unrecognized type marker) */
 	INVALID_FORMAT = 'INVALID_FORMAT',
 
-	/** Integer has leading zeros (e.g., i03e) which is invalid in bencode */
+	/** Integer or (strict syntax only) string length has leading zeros (e.g., i03e or 05:hello) which is invalid in bencode */
 	LEADING_ZEROS = 'LEADING_ZEROS',
 
 	/** Negative zero (i-0e) is not allowed in bencode */
 	NEGATIVE_ZERO = 'NEGATIVE_ZERO',
 
-	/** Dictionary keys are not in sorted order (strict mode only) */
+	/** Integer or string length exceeds Number.MAX_SAFE_INTEGER and cannot be decoded exactly */
+	INTEGER_OVERFLOW = 'INTEGER_OVERFLOW',
+
+	/** Integer has a sign, decimal point or other character bencode does not allow, or no digits (strict syntax only) */
+	INVALID_INTEGER = 'INVALID_INTEGER',
+
+	/** String length is not followed by `:` (strict syntax only) */
+	MISSING_COLON = 'MISSING_COLON',
+
+	/** Dictionary key is not a string (e.g., an integer or list) */
+	INVALID_KEY = 'INVALID_KEY',
+
+	/** Dictionary keys are not in sorted order (strict mode and `validate()` only) */
 	UNSORTED_KEYS = 'UNSORTED_KEYS',
 
-	/** Extra data found after valid bencode (strict mode only) */
+	/** Extra data found after valid bencode (strict mode and `validate()` only) */
 	TRAILING_DATA = 'TRAILING_DATA',
 
-	// Security limits (reserved for future use)
+	/** Dictionary key such as `__proto__` is not allowed (`unsafeKeys: 'error'` only) */
+	UNSAFE_KEY = 'UNSAFE_KEY',
+
+	/** Dictionary key is repeated (`duplicateKeys: 'error'`, `validate()` and encoding with `strict: true` only) */
+	DUPLICATE_KEY = 'DUPLICATE_KEY',
+
+	/** Dictionary key is not valid UTF-8 (`validate()` only) */
+	INVALID_UTF8 = 'INVALID_UTF8',
+
+	// Security limits
 
 	/** Maximum nesting depth exceeded */
 	MAX_DEPTH_EXCEEDED = 'MAX_DEPTH_EXCEEDED',
 
-	/** Maximum input size exceeded */
+	/** Maximum string length exceeded */
 	MAX_SIZE_EXCEEDED = 'MAX_SIZE_EXCEEDED',
 
+	/** Maximum total input size exceeded */
+	MAX_TOTAL_BYTES_EXCEEDED = 'MAX_TOTAL_BYTES_EXCEEDED',
+
+	/** Maximum number of list items exceeded */
+	MAX_LIST_LENGTH_EXCEEDED = 'MAX_LIST_LENGTH_EXCEEDED',
+
+	/** Maximum number of dictionary entries exceeded */
+	MAX_DICT_KEYS_EXCEEDED = 'MAX_DICT_KEYS_EXCEEDED',
+
+	/** Maximum number of values exceeded */
+	MAX_NODES_EXCEEDED = 'MAX_NODES_EXCEEDED',
+
+	/** Maximum number of integer digits exceeded */
+	MAX_INTEGER_DIGITS_EXCEEDED = 'MAX_INTEGER_DIGITS_EXCEEDED',
+
 	// Encoder errors
 
 	/** Attempted to encode an unsupported JavaScript type */
@@ -61,6 +97,9 @@ export enum BencodeErrorCode {
 
 	/** Circular reference detected in data structure */
 	CIRCULAR_REFERENCE = 'CIRCULAR_REFERENCE',
+
+	/** Number is not a safe integer and cannot be encoded exactly (`safeIntegers` or `strict` only) */
+	UNSAFE_INTEGER = 'UNSAFE_INTEGER',
 }
 
 /**
@@ -101,23 +140,40 @@ export abstract class BencodeError extends Error {
 
 }
 
+/**
+ * Where a decode error occurred, beyond its byte position.
+ */
+export interface IBencodeDecodeErrorContext {
+	/** List indices and dictionary keys leading to the value being read */
+	path?: (string | number)[];
+
+	/** What the decoder expected at the position, e.g. `'e'` or `':'` */
+	expected?: string;
+
+	/** The bytes around the position, as hex and ASCII */
+	snippet?: string;
+}
+
 /**
  * Error thrown during bencode decoding operations.
- * Includes the buffer position where the error occurred for debugging.
+ * Includes the buffer position where the error occurred and, for errors found while
+ * parsing, the path of the value being read and the bytes around the position.
  *
  * @example
  * ```typescript
  * try {
- *   decode('i03e'); // Leading zeros not allowed
+ *   decode('d4:infod6:lengthi03eee'); // Leading zeros not allowed
  * } catch (error) {
  *   if (error instanceof BencodeDecodeError) {
  *     console.log(`Error code: ${error.code}`);
  *     console.log(`Position: ${error.position}`);
- *     console.log(`Message: ${error.message}`);
+ *     console.log(`Path: ${error.path?.join('.')}`);
+ *     console.log(`Snippet: ${error.snippet}`);
  *     // Output:
  *     // Error code: LEADING_ZEROS
- *     // Position: 1
- *     // Message: Invalid bencode: leading zeros are not allowed at position 1 (found '0')
+ *     // Position: 17
+ *     // Path: info.length
+ *     // Snippet: 3a 6c 65 6e 67 74 68 69 [30] 33 65 65 65 | :lengthi[0]3eee
  *   }
  * }
  * ```
@@ -126,19 +182,42 @@ export class BencodeDecodeError extends BencodeError {
 
 	/**
 	 * The byte position in the input buffer where the error occurred.
-	 * Undefined for errors that occur before parsing begins (e.g., empty input)
-	 * or after successful parsing (e.g., trailing data in strict mode).
+	 * Undefined for errors that occur before parsing begins (e.g., empty input).
 	 */
 	public readonly position?: number;
 
+	/**
+	 * The path to the value being read when the error occurred.
+	 * List indices are numbers, dictionary keys are strings.
+	 * Undefined for errors that occur before parsing begins.
+	 */
+	public readonly path?: (string | number)[];
+
+	/**
+	 * What the decoder expected at `position`, e.g. `'e'` for an unterminated list.
+	 * Undefined for errors about well-formed but rejected data (e.g., leading zeros or limits).
+	 */
+	public readonly expected?: string;
+
+	/**
+	 * The bytes around `position` as hex and ASCII, with the byte at `position` in brackets
+	 * (`[]` at the end of the data) and non-printable characters shown as `.`.
+	 * Undefined for errors that occur before parsing begins.
+	 */
+	public readonly snippet?: string;
+
 	/**
 	 * @param code - The error code identifying the error type
 	 * @param message - Human-readable error message
 	 * @param position - The byte position where the error occurred (optional)
+	 * @param context - The path, expected token and snippet of the error (optional)
 	 */
-	public constructor(code: BencodeErrorCode, message: string, position?: number) {
+	public constructor(code: BencodeErrorCode, message: string, position?: number, context?: IBencodeDecodeErrorContext) {
 		super(code, message);
 		this.position = position;
+		this.path = context?.path;
+		this.expected = context?.expected;
+		this.snippet = context?.snippet;
 	}
 
 }
@@ -1,12 +1,43 @@
 import { BencodeDecoder } from './BencodeDecoder';
 import { BencodeEncoder } from './BencodeEncoder';
-import { BencodeEncodableValue, IBencodecOptions, IBencodeEncodeOptions } from './types';
+import { BencodeStreamDecoder } from './BencodeStreamDecoder';
+import {
+	BencodeDecodedValue,
+	BencodeEncodableValue,
+	IBencodecOptions,
+	IBencodeCanonicalReport,
+	IBencodeDecodeAsyncOptions,
+	IBencodeEncodeOptions,
+	IBencodeSpansResult,
+	IBencodeValidationReport,
+} from './types';
 import { BencodeDecodeError, BencodeErrorCode } from './errors';
 import { Bytes } from './bytes';
 
-export type { IBencodecOptions, IBencodeEncodeOptions, BencodeDecodedValue, BencodeEncodableValue } from './types';
+export type {
+	IBencodecOptions,
+	IBencodeDecodeAsyncOptions,
+	IBencodeEncodeOptions,
+	IBencodeSpansResult,
+	IBencodeValidationIssue,
+	IBencodeValidationReport,
+	IBencodeCanonicalReport,
+	BencodeStringifyPredicate,
+	BencodeReplacer,
+	BencodeSerializableClass,
+	BencodeSerializer,
+	BencodeDecodedValue,
+	BencodeEncodableValue,
+} from './types';
+export { BENCODE_SERIALIZE } from './types';
 export type { ByteEncoding } from './bytes';
 export * from './errors';
+export { BencodeSpans } from './BencodeSpans';
+export { BencodeView } from './BencodeView';
+export { BencodeStreamDecoder } from './BencodeStreamDecoder';
+export { BencodeDecodeStream } from './BencodeDecodeStream';
+export { BencodeEncodeStream } from './BencodeEncodeStream';
+export { SAFE_DEFAULTS } from './presets';
 
 /**
  * Decodes bencode data into JavaScript values.
@@ -22,22 +53,26 @@ export * from './errors';
  * @param options - Configuration options for decoding behavior.
  *
  * @returns The decoded JavaScript value. The return type depends on the bencode data:
- *   - Bencode integers → `number`
+ *   - Bencode integers → `number` (default) or `bigint` (see `integers` option)
  *   - Bencode strings → `Uint8Array` (default) or `string` (if `stringify: true`)
  *   - Bencode lists → `Array`
  *   - Bencode dictionaries → `Object`
  *
  * @throws {BencodeDecodeError} With code `EMPTY_INPUT` if data is empty or falsy.
  * @throws {BencodeDecodeError} With code `INVALID_FORMAT` if data is not valid bencode.
+ * @throws {BencodeDecodeError} With code `INVALID_KEY` if a dictionary key is not a string.
  * @throws {BencodeDecodeError} With code `UNEXPECTED_END` if data ends unexpectedly.
  * @throws {BencodeDecodeError} With code `LEADING_ZEROS` if an integer has leading zeros (e.g., `i03e`).
  * @throws {BencodeDecodeError} With code `NEGATIVE_ZERO` if negative zero is encountered (`i-0e`).
+ * @throws {BencodeDecodeError} With code `INTEGER_OVERFLOW` if an integer or string length exceeds
+ *   `Number.MAX_SAFE_INTEGER` (integers are accepted with `integers: 'bigint'` or `'auto'`).
  * @throws {BencodeDecodeError} With code `UNSORTED_KEYS` if `strict: true` and dictionary keys
  *   are not in lexicographic order.
  * @throws {BencodeDecodeError} With code `TRAILING_DATA` if `strict: true` and extra data
  *   follows the decoded value.
  * @throws {BencodeDecodeError} With code `MAX_SIZE_EXCEEDED` if a string exceeds `maxStringLength`.
  * @throws {BencodeDecodeError} With code `MAX_DEPTH_EXCEEDED` if nesting exceeds `maxDepth`.
+ * @throws {BencodeDecodeError} With code `MAX_TOTAL_BYTES_EXCEEDED` if data exceeds `maxTotalBytes`.
  *
  * @example
  * ```typescript
@@ -58,6 +93,9 @@ export * from './errors';
  * // Decode a dictionary
  * decode('d3:fooi42ee', { stringify: true });  // { foo: 42 }
  *
+ * // Decode integers beyond Number.MAX_SAFE_INTEGER losslessly
+ * decode('i18446744073709551615e', { integers: 'auto' });  // 18446744073709551615n
+ *
  * // Use strict mode for validation
  * decode('i42eextra', { strict: true });  // throws TRAILING_DATA error
  *
@@ -84,13 +122,322 @@ export function decode<Type = unknown>(data: Uint8Array | string, options?: IBen
 	const decoder = new BencodeDecoder(data, options);
 	const result = decoder.decode();
 
-	if (options?.strict && decoder.hasRemainingData()) {
-		throw new BencodeDecodeError(BencodeErrorCode.TRAILING_DATA, 'Invalid bencode: unexpected data after valid bencode');
+	if (options?.strict) {
+		decoder.checkEnd();
 	}
 
 	return result as Type;
 }
 
+/**
+ * Decodes bencode data and records the byte span of every decoded value.
+ *
+ * Use this when the exact original bytes of a value matter, e.g. to compute a torrent's
+ * info-hash. Re-encoding the decoded value is not equivalent, since it normalizes
+ * non-canonical input (unsorted keys, `i+1e`, ...).
+ *
+ * @typeParam Type - The expected type of the decoded value. Defaults to `unknown`.
+ *
+ * @param data - The bencode data to decode. Strings are converted to Uint8Array internally,
+ *   and spans are offsets in the converted bytes.
+ * @param options - Configuration options for decoding behavior.
+ *
+ * @returns The decoded value and a {@link BencodeSpans} that maps paths to `[start, end)`
+ *   byte offsets and byte offsets back to paths.
+ *
+ * @throws {BencodeDecodeError} Any error {@link decode} throws.
+ *
+ * @example
+ * ```typescript
+ * import { decodeWithSpans } from 'bencodec';
+ *
+ * const { value, spans } = decodeWithSpans(torrentBytes);
+ * const [ start, end ] = spans.get(['info'])!;
+ * const infoHash = await crypto.subtle.digest('SHA-1', torrentBytes.subarray(start, end));
+ * ```
+ */
+export function decodeWithSpans<Type = unknown>(data: Uint8Array | string, options?: IBencodecOptions): IBencodeSpansResult<Type> {
+	const decoder = new BencodeDecoder(data, options);
+	const result = decoder.decodeWithSpans();
+
+	if (options?.strict) {
+		decoder.checkEnd();
+	}
+
+	return result as IBencodeSpansResult<Type>;
+}
+
+/**
+ * Decodes the value at `path` without decoding the rest of the data.
+ *
+ * Walks the bencode structure and skips every value before the selected one using the
+ * string length prefixes, so no lists, dictionaries or strings are created except the
+ * returned value. Use this to read one field from many small payloads.
+ *
+ * @typeParam Type - The expected type of the value. Defaults to `unknown`.
+ *
+ * @param data - The bencode data. Strings are converted to Uint8Array internally.
+ * @param path - List indices and dictionary keys leading to the value. If a dictionary
+ *   repeats a key, its first value is selected with `duplicateKeys: 'first'` and its last
+ *   value otherwise.
+ * @param options - Configuration options for decoding behavior.
+ *
+ * @returns The decoded value, or `undefined` if there is no value at `path`.
+ *
+ * @throws {BencodeDecodeError} For malformed data before or in the selected value. Skipped
+ *   dictionaries are not checked for key order or repeated keys, and data after the value
+ *   is not read, except the rest of the dictionaries on the path unless `duplicateKeys` is `'first'`.
+ *
+ * @example
+ * ```typescript
+ * import { decodePath } from 'bencodec';
+ *
+ * decodePath<number>(torrent, ['info', 'piece length']);  // 262144
+ * decodePath(response, ['peers', 0, 'ip'], { stringify: true });
+ * decodePath(torrent, ['missing']);  // undefined
+ * ```
+ */
+export function decodePath<Type = unknown>(data: Uint8Array | string, path: Array<string | number | Uint8Array>, options?: IBencodecOptions): Type | undefined {
+	const decoder = new BencodeDecoder(data, options);
+
+	return decoder.seek(path) ? decoder.decode() as Type : undefined;
+}
+
+/**
+ * Gets the original bytes of the value at `path` without decoding the data.
+ *
+ * Selects the value like {@link decodePath} and returns its encoded form, e.g. the info
+ * dictionary of a torrent for computing its info-hash.
+ *
+ * @param data - The bencode data. Strings are converted to Uint8Array internally.
+ * @param path - List indices and dictionary keys leading to the value.
+ * @param options - Configuration options. With `copy: false` the result is a view into `data`.
+ *
+ * @returns The bytes of the value, or `undefined` if there is no value at `path`.
+ *
+ * @throws {BencodeDecodeError} For malformed data before or in the selected value.
+ *
+ * @example
+ * ```typescript
+ * import { extractRaw } from 'bencodec';
+ *
+ * const info = extractRaw(torrent, ['info'])!;
+ * const infoHash = await crypto.subtle.digest('SHA-1', info);
+ * ```
+ */
+export function extractRaw(data: Uint8Array | string, path: Array<string | number | Uint8Array>, options?: IBencodecOptions): Uint8Array | undefined {
+	const decoder = new BencodeDecoder(data, options);
+
+	if (!decoder.seek(path)) {
+		return undefined;
+	}
+
+	const raw = decoder.skip();
+
+	return options?.copy === false ? raw : new Uint8Array(raw);
+}
+
+/**
+ * Checks bencode data and reports every problem found, instead of throwing on the first.
+ *
+ * Reports everything `decode()` rejects with `strict: true` and the same options, plus
+ * repeated dictionary keys and keys that are not valid UTF-8. Reading continues after
+ * problems that leave the data readable, such as non-canonical integers or unsorted keys.
+ * Problems that do not, such as truncated data or an exceeded limit, end the check and are
+ * reported last.
+ *
+ * @param data - The bencode data. Strings are converted to Uint8Array internally.
+ * @param options - The limits to check, `integers` and `unsafeKeys`, as for {@link decode}.
+ *   Options that only shape decoded values have no effect.
+ *
+ * @returns Whether the data is valid, and every problem with its error code, byte position
+ *   and the path of the value it was found in.
+ *
+ * @example
+ * ```typescript
+ * import { validate, SAFE_DEFAULTS } from 'bencodec';
+ *
+ * const report = validate(upload, SAFE_DEFAULTS);
+ *
+ * for (const issue of report.issues) {
+ *   console.log(`${issue.code} at ${issue.position} in ${issue.path.join('.')}: ${issue.message}`);
+ * }
+ * ```
+ */
+export function validate(data: Uint8Array | string, options?: IBencodecOptions): IBencodeValidationReport {
+	let decoder: BencodeDecoder;
+
+	try {
+		decoder = new BencodeDecoder(data, { ...options, stringify: false, copy: false });
+	}
+	catch (error) {
+		const { code, message, position } = error as BencodeDecodeError;
+
+		return { valid: false, issues: [{ code, message, position: position ?? 0, path: [] }] };
+	}
+
+	return decoder.validate();
+}
+
+/**
+ * Rewrites bencode data into its canonical form.
+ *
+ * The canonical form is what {@link encode} produces: dictionary keys sorted by raw bytes
+ * and each key written once, integers and string lengths without `+`, decimal points or
+ * leading zeros, and nothing after the root value. Strings are kept byte for byte and
+ * integers exactly, including those beyond `Number.MAX_SAFE_INTEGER`, so equal values
+ * always give equal bytes, e.g. for hashing.
+ *
+ * @param data - The bencode data. Strings are converted to Uint8Array internally.
+ * @param options - Limits and `duplicateKeys`, as for {@link decode}. Repeated keys keep
+ *   their last value by default. Options that shape decoded values have no effect.
+ *
+ * @returns The canonical bencode data.
+ *
+ * @throws {BencodeDecodeError} Any error {@link decode} throws for the data without `strict`.
+ *
+ * @example
+ * ```typescript
+ * import { canonicalize } from 'bencodec';
+ *
+ * canonicalize('d1:bi+1e1:a03:fooe');  // Uint8Array for 'd1:a3:foo1:bi1ee'
+ * ```
+ */
+export function canonicalize(data: Uint8Array | string, options?: IBencodecOptions): Uint8Array {
+	return new BencodeEncoder().encode(decodeCanonical(data, options) as BencodeEncodableValue) as Uint8Array;
+}
+
+/**
+ * Checks whether bencode data is in canonical form.
+ *
+ * Data is canonical if {@link canonicalize} returns it unchanged.
+ *
+ * @param data - The bencode data. Strings are converted to Uint8Array internally.
+ * @param options - Options for {@link canonicalize}.
+ *
+ * @returns Whether the data is canonical, and if not, the offset of the first byte that
+ *   differs from the canonical form. For data that cannot be decoded, the offset is the
+ *   position of the decoding error.
+ *
+ * @example
+ * ```typescript
+ * import { isCanonical } from 'bencodec';
+ *
+ * isCanonical('d1:ai1e1:bi2ee');  // { canonical: true }
+ * isCanonical('d1:bi2e1:ai1ee');  // { canonical: false, position: 3 }
+ * isCanonical('i1ei2e');          // { canonical: false, position: 3 }
+ * ```
+ */
+export function isCanonical(data: Uint8Array | string, options?: IBencodecOptions): IBencodeCanonicalReport {
+	const bytes = typeof data === 'string' ? Bytes.fromString(data) : data;
+	let value: BencodeDecodedValue;
+
+	try {
+		value = decodeCanonical(data, options);
+	}
+	catch (error) {
+		return { canonical: false, position: (error as BencodeDecodeError).position ?? 0 };
+	}
+
+	const canonical = new BencodeEncoder().encode(value as BencodeEncodableValue) as Uint8Array;
+	let position = 0;
+
+	while (position < bytes.length && position < canonical.length && bytes[position] === canonical[position]) {
+		position++;
+	}
+
+	return position === bytes.length && position === canonical.length ? { canonical: true } : { canonical: false, position };
+}
+
+/**
+ * Decodes bencode data read from an asynchronous source.
+ *
+ * Reads chunks of `source` and decodes them exactly like {@link decode}. Chunks are fed to a
+ * {@link BencodeStreamDecoder} as they arrive, so malformed data is reported without waiting
+ * for the rest of the source and the input is never joined into one copy.
+ *
+ * The promise resolves as soon as the value is complete, and the source is released
+ * (`return()` on an iterator, `cancel()` on a stream) without reading the data after it,
+ * just as `decode()` ignores trailing data. With `strict: true` the source is read to its
+ * end instead, to reject trailing data. Reading can be aborted with `options.signal`, and `options.maxTotalBytes` is
+ * enforced while reading, so oversized input is rejected before it is fully buffered.
+ *
+ * @typeParam Type - The expected return type. Defaults to `unknown`. Use with caution as
+ *   no runtime validation is performed.
+ *
+ * @param source - An `AsyncIterable` of chunks (e.g. a Node.js file stream) or a
+ *   `ReadableStream` (e.g. `Blob.stream()` or a fetch response body).
+ * @param options - Configuration options for decoding behavior, plus an optional `signal`.
+ *
+ * @returns A promise resolving to the decoded JavaScript value.
+ *
+ * @throws {BencodeDecodeError} With code `EMPTY_INPUT` if the source yields no data.
+ * @throws {BencodeDecodeError} With code `MAX_TOTAL_BYTES_EXCEEDED` if the bytes read exceed
+ *   `maxTotalBytes`.
+ * @throws {BencodeDecodeError} Any other error {@link decode} throws for the data read.
+ * @throws The signal's `reason` if `options.signal` is aborted.
+ *
+ * @example
+ * ```typescript
+ * import { createReadStream } from 'node:fs';
+ * import { decodeAsync } from 'bencodec';
+ *
+ * // From a Node.js stream
+ * const torrent = await decodeAsync(createReadStream('file.torrent'), { maxTotalBytes: 10 * 1024 * 1024 });
+ *
+ * // From a fetch response, with a timeout
+ * const response = await fetch(url);
+ * const data = await decodeAsync(response.body!, { signal: AbortSignal.timeout(5000) });
+ * ```
+ */
+export async function decodeAsync<Type = unknown>(
+	source: AsyncIterable<Uint8Array | string> | ReadableStream<Uint8Array>,
+	options?: IBencodeDecodeAsyncOptions,
+): Promise<Type> {
+	const { signal, ...decodeOptions } = options ?? { };
+	const iterator = source instanceof ReadableStream
+		? readerIterator(source.getReader())
+		: source[Symbol.asyncIterator]();
+	const decoder = new BencodeStreamDecoder(decodeOptions, true);
+	const values: Array<BencodeDecodedValue> = [];
+	let totalBytes = 0;
+
+	try {
+		for (let result = await abortable(iterator.next(), signal); !result.done; result = await abortable(iterator.next(), signal)) {
+			const chunk = typeof result.value === 'string' ? Bytes.fromString(result.value) : result.value;
+			totalBytes += chunk.length;
+
+			if (decodeOptions.maxTotalBytes && totalBytes > decodeOptions.maxTotalBytes) {
+				throw new BencodeDecodeError(
+					BencodeErrorCode.MAX_TOTAL_BYTES_EXCEEDED,
+					`Input size exceeds maximum ${decodeOptions.maxTotalBytes}`,
+					decodeOptions.maxTotalBytes,
+				);
+			}
+
+			values.push(...decoder.push(chunk));
+
+			if (values.length > 0 && !decodeOptions.strict) {
+				release(iterator);
+
+				return values[0] as Type;
+			}
+		}
+
+		values.push(...decoder.end());
+	}
+	catch (error) {
+		release(iterator);
+		throw error;
+	}
+
+	if (values.length === 0) {
+		throw new BencodeDecodeError(BencodeErrorCode.EMPTY_INPUT, 'Nothing to decode');
+	}
+
+	return values[0] as Type;
+}
+
 /**
  * Encodes JavaScript values into bencode format.
  *
@@ -106,9 +453,13 @@ export function decode<Type = unknown>(data: Uint8Array | string, options?: IBen
  * @returns The bencode-encoded data as a Uint8Array (default) or string (if `stringify: true`).
  *
  * @throws {BencodeEncodeError} With code `UNSUPPORTED_TYPE` if the value contains an
- *   unsupported type (e.g., functions, symbols, BigInt).
+ *   unsupported type (e.g., functions, symbols).
  * @throws {BencodeEncodeError} With code `CIRCULAR_REFERENCE` if the data contains
  *   circular references.
+ * @throws {BencodeEncodeError} With code `UNSAFE_INTEGER` if `safeIntegers: true` or
+ *   `strict: true` and a number is not a safe integer after truncation.
+ * @throws {BencodeEncodeError} With code `DUPLICATE_KEY` if `strict: true` and two keys of a
+ *   dictionary encode to the same bytes.
  *
  * @example
  * ```typescript
@@ -139,7 +490,8 @@ export function decode<Type = unknown>(data: Uint8Array | string, options?: IBen
  * - **Boolean encoding**: Booleans are encoded as integers (`true` → `i1e`, `false` → `i0e`).
  *   Standard bencode does not define boolean types.
  * - **Float truncation**: Floating-point numbers are truncated toward zero before encoding.
- *   For example, `3.7` becomes `i3e` and `-2.9` becomes `i-2e`.
+ *   For example, `3.7` becomes `i3e` and `-2.9` becomes `i-2e`. Set `safeIntegers: true`
+ *   to reject numbers that cannot be written exactly.
  * - **Null/undefined handling**: `null` and `undefined` values are silently skipped
  *   in lists and dictionaries. They cannot be encoded as top-level values.
  *
@@ -162,13 +514,18 @@ export function encode(data: BencodeEncodableValue, options?: IBencodecOptions):
  * {@link https://wiki.theory.org/index.php/BitTorrentSpecification#Bencoding | BitTorrent specification}.
  *
  * @param data - The value to encode. See {@link BencodeEncodableValue} for supported types.
+ * @param options - Configuration options for encoding behavior. `stringify` is ignored.
  *
  * @returns The bencode-encoded data as a Uint8Array.
  *
  * @throws {BencodeEncodeError} With code `UNSUPPORTED_TYPE` if the value contains an
- *   unsupported type (e.g., functions, symbols, BigInt).
+ *   unsupported type (e.g., functions, symbols).
  * @throws {BencodeEncodeError} With code `CIRCULAR_REFERENCE` if the data contains
  *   circular references.
+ * @throws {BencodeEncodeError} With code `UNSAFE_INTEGER` if `safeIntegers: true` or
+ *   `strict: true` and a number is not a safe integer after truncation.
+ * @throws {BencodeEncodeError} With code `DUPLICATE_KEY` if `strict: true` and two keys of a
+ *   dictionary encode to the same bytes.
  *
  * @example
  * ```typescript
@@ -185,6 +542,12 @@ export function encode(data: BencodeEncodableValue, options?: IBencodecOptions):
  *
  * // Encode binary data
  * encodeToBytes(new Uint8Array([0x00, 0xff]));  // Uint8Array for '2:\x00\xff'
+ *
+ * // Encode 64-bit integers exactly
+ * encodeToBytes(18446744073709551615n);  // Uint8Array for 'i18446744073709551615e'
+ *
+ * // Reject numbers that would lose precision
+ * encodeToBytes(2 ** 64, { safeIntegers: true });  // throws UNSAFE_INTEGER error
  * ```
  *
  * @remarks
@@ -198,10 +561,10 @@ export function encode(data: BencodeEncodableValue, options?: IBencodecOptions):
  * Dictionary keys are automatically sorted lexicographically (by raw byte value)
  * to comply with the bencode specification.
  */
-export function encodeToBytes<T extends object>(data: T): Uint8Array;
-export function encodeToBytes(data: BencodeEncodableValue): Uint8Array;
-export function encodeToBytes(data: BencodeEncodableValue): Uint8Array {
-	const encoder = new BencodeEncoder();
+export function encodeToBytes<T extends object>(data: T, options?: IBencodecOptions): Uint8Array;
+export function encodeToBytes(data: BencodeEncodableValue, options?: IBencodecOptions): Uint8Array;
+export function encodeToBytes(data: BencodeEncodableValue, options?: IBencodecOptions): Uint8Array {
+	const encoder = new BencodeEncoder({ ...options, stringify: false });
 
 	return encoder.encode(data) as Uint8Array;
 }
@@ -220,9 +583,13 @@ export function encodeToBytes(data: BencodeEncodableValue): Uint8Array {
  * @returns The bencode-encoded data as a string.
  *
  * @throws {BencodeEncodeError} With code `UNSUPPORTED_TYPE` if the value contains an
- *   unsupported type (e.g., functions, symbols, BigInt).
+ *   unsupported type (e.g., functions, symbols).
  * @throws {BencodeEncodeError} With code `CIRCULAR_REFERENCE` if the data contains
  *   circular references.
+ * @throws {BencodeEncodeError} With code `UNSAFE_INTEGER` if `safeIntegers: true` or
+ *   `strict: true` and a number is not a safe integer after truncation.
+ * @throws {BencodeEncodeError} With code `DUPLICATE_KEY` if `strict: true` and two keys of a
+ *   dictionary encode to the same bytes.
  *
  * @example
  * ```typescript
@@ -262,12 +629,88 @@ export function encodeToBytes(data: BencodeEncodableValue): Uint8Array {
 export function encodeToString<T extends object>(data: T, options?: IBencodeEncodeOptions): string;
 export function encodeToString(data: BencodeEncodableValue, options?: IBencodeEncodeOptions): string;
 export function encodeToString(data: BencodeEncodableValue, options?: IBencodeEncodeOptions): string {
-	const encoding = options?.encoding ?? 'utf8';
-	const encoder = new BencodeEncoder({ stringify: false });
+	const { encoding = 'utf8', ...encoderOptions } = options ?? { };
+	const encoder = new BencodeEncoder({ ...encoderOptions, stringify: false });
 	const bytes = encoder.encode(data) as Uint8Array;
 
 	return Bytes.toString(bytes, encoding);
 }
 
-export const bencodec = { decode, encode, encodeToBytes, encodeToString };
+/**
+ * Decodes bencode data into values that encode back to its canonical form.
+ *
+ * Dictionaries become maps with raw byte keys and integers are kept exactly, so no key
+ * or value is changed by decoding.
+ *
+ * @param data - The bencode data.
+ * @param options - Options for {@link canonicalize}.
+ * @returns The decoded root value.
+ */
+function decodeCanonical(data: Uint8Array | string, options?: IBencodecOptions): BencodeDecodedValue {
+	const decoder = new BencodeDecoder(data, {
+		...options,
+		stringify: false,
+		copy: false,
+		strict: false,
+		strictSyntax: false,
+		dictionaryType: 'map',
+		integers: 'auto',
+	});
+
+	return decoder.decode();
+}
+
+/**
+ * Adapts a `ReadableStream` reader to the async iterator protocol.
+ *
+ * Used instead of `ReadableStream`'s own async iterator, which not every runtime provides.
+ *
+ * @param reader - The reader to read chunks from.
+ * @returns An iterator whose `return()` cancels the stream.
+ */
+function readerIterator(reader: ReadableStreamDefaultReader<Uint8Array>): AsyncIterator<Uint8Array> {
+	return {
+		next: () => reader.read() as Promise<IteratorResult<Uint8Array>>,
+		return: async () => {
+			await reader.cancel();
+
+			return { done: true, value: undefined };
+		},
+	};
+}
+
+/**
+ * Releases a source without waiting for a read that may never settle.
+ *
+ * @param iterator - The iterator reading the source.
+ */
+function release(iterator: AsyncIterator<unknown>): void {
+	iterator.return?.()?.catch(() => undefined);
+}
+
+/**
+ * Rejects with the signal's reason as soon as it is aborted, without waiting for `promise`.
+ *
+ * @param promise - The pending operation.
+ * @param signal - The signal that aborts waiting (optional).
+ * @returns A promise settling like `promise`, unless the signal aborts first.
+ */
+function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+	if (!signal) {
+		return promise;
+	}
+	if (signal.aborted) {
+		return Promise.reject(signal.reason);
+	}
+
+	return new Promise((resolve, reject) => {
+		const onAbort = (): void => reject(signal.reason);
+		signal.addEventListener('abort', onAbort, { once: true });
+		promise
+			.then(resolve, reject)
+			.finally(() => signal.removeEventListener('abort', onAbort));
+	});
+}
+
+export const bencodec = { decode, decodeAsync, decodeWithSpans, decodePath, extractRaw, validate, canonicalize, isCanonical, encode, encodeToBytes, encodeToString };
 export default bencodec;
@@ -0,0 +1,26 @@
+import { IBencodecOptions } from './types';
+
+/**
+ * Resource limits for decoding untrusted data, such as data received from peers.
+ *
+ * The limits leave room for large real-world torrents (multi-megabyte piece hashes and
+ * file lists with tens of thousands of entries) while bounding the memory and CPU time an
+ * attacker can make a single decode use. Spread the preset to adjust or extend it.
+ *
+ * @example
+ * ```typescript
+ * import { decode, SAFE_DEFAULTS } from 'bencodec';
+ *
+ * decode(untrustedData, SAFE_DEFAULTS);
+ * decode(dhtMessage, { ...SAFE_DEFAULTS, maxTotalBytes: 64 * 1024, stringify: 'auto' });
+ * ```
+ */
+export const SAFE_DEFAULTS: Readonly<IBencodecOptions> = Object.freeze({
+	maxTotalBytes: 32 * 1024 * 1024,
+	maxStringLength: 16 * 1024 * 1024,
+	maxDepth: 64,
+	maxListLength: 1000000,
+	maxDictKeys: 100000,
+	maxNodes: 2000000,
+	maxIntegerDigits: 20,
+});
@@ -1,4 +1,6 @@
 import type { ByteEncoding } from './bytes';
+import type { BencodeSpans } from './BencodeSpans';
+import type { BencodeErrorCode } from './errors';
 
 /**
  * Configuration options for bencode encoding and decoding operations.
@@ -18,11 +20,20 @@ export interface IBencodecOptions {
 	 *
 	 * - **Decoding**: String values are returned as JavaScript strings instead of Buffers.
 	 *   Uses the `encoding` option (default: 'utf8') for conversion.
+	 *   A list of path patterns or a {@link BencodeStringifyPredicate} converts only the selected
+	 *   string values, so text and binary fields can be decoded in one pass. Patterns are
+	 *   dictionary keys and list indices joined with `.`, where `*` matches any key or index,
+	 *   e.g. `['announce', 'info.name', 'info.files.*.path.*']`. Paths start at the document root,
+	 *   also for `decodePath()` and `BencodeView` values, and dictionary keys are converted as with `true`.
+	 *   `'auto'` returns strings that are valid UTF-8 as JavaScript strings and all other strings,
+	 *   including `Map` keys, as Uint8Arrays, so binary data such as hashes is never altered.
+	 *   `encoding` is ignored.
 	 * - **Encoding**: Returns the encoded bencode data as a UTF-8 string instead of a Buffer.
+	 *   Only `true` applies.
 	 *
 	 * @default false
 	 */
-	stringify?: boolean;
+	stringify?: boolean | 'auto' | ReadonlyArray<string> | BencodeStringifyPredicate;
 
 	/**
 	 * Enables strict bencode validation according to the BitTorrent specification.
@@ -30,13 +41,39 @@ export interface IBencodecOptions {
 	 * When `true`, the following additional validations are performed during decoding:
 	 * - Dictionary keys must be in sorted (lexicographic) order
 	 * - No trailing data is allowed after the decoded value
+	 * - Integers and string lengths must follow the bencode grammar (see `strictSyntax`)
+	 *
+	 * When encoding, dictionary keys that encode to the same bytes (e.g. a string key and an
+	 * equal `Uint8Array` key of a Map, or strings with unpaired surrogates) are rejected, and so
+	 * are numbers that are not safe integers after truncation (`NaN`, `Infinity` and integers
+	 * beyond `Number.MAX_SAFE_INTEGER`), so the output always decodes with `strict: true`.
 	 *
 	 * @default false
 	 * @throws {BencodeDecodeError} With code `UNSORTED_KEYS` if dictionary keys are not sorted
 	 * @throws {BencodeDecodeError} With code `TRAILING_DATA` if extra data follows the bencode value
+	 * @throws {BencodeEncodeError} With code `DUPLICATE_KEY` if two keys of a dictionary encode
+	 *   to the same bytes
+	 * @throws {BencodeEncodeError} With code `UNSAFE_INTEGER` if a number is not a safe integer
+	 *   after truncation
 	 */
 	strict?: boolean;
 
+	/**
+	 * When `true`, integers and string lengths must follow the bencode grammar exactly,
+	 * as libtorrent requires, without the other checks of `strict`:
+	 * - Integers have digits and no `+` sign or decimal point (`i+42e`, `i3.14e`, `ie`, `i-e`)
+	 * - String lengths have no leading zeros (`05:hello`)
+	 * - String lengths are followed by `:`
+	 *
+	 * Implied by `strict: true`. Only applies to decoding operations.
+	 *
+	 * @default false
+	 * @throws {BencodeDecodeError} With code `INVALID_INTEGER` if an integer is malformed
+	 * @throws {BencodeDecodeError} With code `LEADING_ZEROS` if a string length has leading zeros
+	 * @throws {BencodeDecodeError} With code `MISSING_COLON` if a string length is not followed by `:`
+	 */
+	strictSyntax?: boolean;
+
 	/**
 	 * Character encoding to use when `stringify` is `true`.
 	 * Only applies to decoding operations.
@@ -45,6 +82,84 @@ export interface IBencodecOptions {
 	 */
 	encoding?: ByteEncoding;
 
+	/**
+	 * When `false`, decoded byte strings are `subarray` views into the input buffer
+	 * instead of copies, which avoids an allocation per string on large inputs.
+	 * Only applies to decoding operations, and has no effect when `stringify` is `true`.
+	 *
+	 * Views share memory with the input: modifying the input changes the decoded values,
+	 * and keeping any value alive keeps the whole input buffer alive.
+	 *
+	 * @default true
+	 */
+	copy?: boolean;
+
+	/**
+	 * How bencode dictionaries are represented when decoding.
+	 * Only applies to decoding operations.
+	 *
+	 * - `'object'` - Plain objects. Keys are converted to strings (UTF-8, or `encoding` with
+	 *   `stringify`), so keys that are not valid text are altered and may collide.
+	 * - `'map'` - `Map`s that keep the keys' raw bytes and input order. Keys are `Uint8Array`s,
+	 *   or strings with `stringify`. Such maps can be encoded back unchanged.
+	 *
+	 * @default 'object'
+	 */
+	dictionaryType?: 'object' | 'map';
+
+	/**
+	 * When `true`, dictionaries are decoded as objects without a prototype
+	 * (`Object.create(null)`), so no decoded key can shadow or reach `Object.prototype`.
+	 * Only applies to decoding operations with `dictionaryType: 'object'`.
+	 *
+	 * @default false
+	 */
+	nullPrototype?: boolean;
+
+	/**
+	 * How dictionary keys that can tamper with object prototypes (`__proto__`, `constructor`
+	 * and `prototype`) are handled when decoding to objects.
+	 * Only applies to decoding operations with `dictionaryType: 'object'`.
+	 *
+	 * - `'define'` - Keep the key as a plain own property. `__proto__` never changes the
+	 *   prototype of the decoded object.
+	 * - `'ignore'` - Drop the key and its value. `BencodeView` skips such entries too.
+	 * - `'error'` - Reject the input.
+	 *
+	 * @default 'define'
+	 * @throws {BencodeDecodeError} With code `UNSAFE_KEY` if `'error'` is used and such a key is found
+	 */
+	unsafeKeys?: 'define' | 'ignore' | 'error';
+
+	/**
+	 * How repeated dictionary keys are handled.
+	 * Keys are repeated if they are equal as stored in the result: raw bytes for `Map`s with
+	 * byte keys, strings otherwise.
+	 *
+	 * - `'last'` - Keep the last value.
+	 * - `'first'` - Keep the first value.
+	 * - `'collect'` - Keep all values of a repeated key in a list, in input order. Keys
+	 *   that are not repeated keep their value.
+	 * - `'error'` - Reject the input.
+	 *
+	 * Only applies to decoding operations. `BencodeView`, `decodePath()` and `extractRaw()`
+	 * apply `'error'`, and select the first value with `'first'` and the last value otherwise.
+	 *
+	 * @default 'last'
+	 * @throws {BencodeDecodeError} With code `DUPLICATE_KEY` if `'error'` is used and a key is repeated
+	 */
+	duplicateKeys?: 'error' | 'first' | 'last' | 'collect';
+
+	/**
+	 * When `true`, every decoded list and dictionary is frozen with `Object.freeze`, so the
+	 * whole result is read-only. Byte strings (`Uint8Array`) and `Map` entries cannot be frozen
+	 * and stay mutable.
+	 * Only applies to decoding operations.
+	 *
+	 * @default false
+	 */
+	freeze?: boolean;
+
 	/**
 	 * Maximum allowed length for decoded strings in bytes.
 	 * Provides protection against memory exhaustion from malicious input.
@@ -55,11 +170,249 @@ export interface IBencodecOptions {
 
 	/**
 	 * Maximum allowed nesting depth for lists and dictionaries.
-	 * Provides protection against stack overflow from deeply nested structures.
+	 * Decoding does not recurse, so this bounds memory use rather than stack use.
 	 *
 	 * @throws {BencodeDecodeError} With code `MAX_DEPTH_EXCEEDED` if nesting exceeds this limit
 	 */
 	maxDepth?: number;
+
+	/**
+	 * Maximum allowed size of the whole input in bytes.
+	 * Provides protection against memory exhaustion from oversized input.
+	 *
+	 * `BencodeStreamDecoder` and `BencodeDecodeStream` apply this limit to each top-level
+	 * value rather than to the whole stream, so a long-lived stream may carry any number of
+	 * values within it. `decodeAsync()` applies it to everything read from the source.
+	 *
+	 * @throws {BencodeDecodeError} With code `MAX_TOTAL_BYTES_EXCEEDED` if the input exceeds this limit
+	 */
+	maxTotalBytes?: number;
+
+	/**
+	 * Maximum allowed number of items in a single list.
+	 * Provides protection against memory exhaustion from huge lists of tiny values.
+	 *
+	 * @throws {BencodeDecodeError} With code `MAX_LIST_LENGTH_EXCEEDED` if a list exceeds this limit
+	 */
+	maxListLength?: number;
+
+	/**
+	 * Maximum allowed number of entries in a single dictionary, counting repeated keys.
+	 * Provides protection against memory exhaustion from huge dictionaries of tiny keys.
+	 *
+	 * @throws {BencodeDecodeError} With code `MAX_DICT_KEYS_EXCEEDED` if a dictionary exceeds this limit
+	 */
+	maxDictKeys?: number;
+
+	/**
+	 * Maximum allowed number of values in a decoded value, including itself and all nested
+	 * values, but not dictionary keys.
+	 * Provides protection against memory exhaustion from many small containers.
+	 *
+	 * @throws {BencodeDecodeError} With code `MAX_NODES_EXCEEDED` if the value count exceeds this limit
+	 */
+	maxNodes?: number;
+
+	/**
+	 * Maximum allowed number of digits of an integer, without the sign (default: `4300`).
+	 * Provides protection against CPU exhaustion from huge integers decoded as `bigint`,
+	 * so a limit applies even when this option is not set.
+	 *
+	 * @throws {BencodeDecodeError} With code `MAX_INTEGER_DIGITS_EXCEEDED` if an integer exceeds this limit
+	 */
+	maxIntegerDigits?: number;
+
+	/**
+	 * How bencode integers are represented when decoding.
+	 * Only applies to decoding operations.
+	 *
+	 * - `'number'` - Always returns a `number`. Integers outside the safe integer range
+	 *   are rejected.
+	 * - `'bigint'` - Always returns a `bigint`.
+	 * - `'auto'` - Returns a `number` for integers within `Number.MAX_SAFE_INTEGER`
+	 *   and a `bigint` for larger magnitudes.
+	 *
+	 * String length prefixes are not affected and are always read as numbers.
+	 *
+	 * @default 'number'
+	 * @throws {BencodeDecodeError} With code `INTEGER_OVERFLOW` if `'number'` is used and an
+	 *   integer exceeds `Number.MAX_SAFE_INTEGER`
+	 */
+	integers?: 'number' | 'bigint' | 'auto';
+
+	/**
+	 * When `true`, numbers that are not safe integers after truncation (including `NaN`
+	 * and `Infinity`) are rejected instead of being written with imprecise digits.
+	 * Implied by `strict`.
+	 * Use `bigint` to encode integers outside the safe range exactly.
+	 * Only applies to encoding operations.
+	 *
+	 * @default false
+	 * @throws {BencodeEncodeError} With code `UNSAFE_INTEGER` if a number is not a safe integer
+	 */
+	safeIntegers?: boolean;
+
+	/**
+	 * Called for every value before it is encoded, like the `replacer` of `JSON.stringify`.
+	 * The returned value is encoded instead, and `null` or `undefined` skips a list item or
+	 * dictionary entry. Values are passed after {@link serializers} and the
+	 * {@link BENCODE_SERIALIZE} and `toBencode()` methods have converted them.
+	 * Only applies to encoding operations.
+	 *
+	 * @example
+	 * ```typescript
+	 * // Leave out private fields
+	 * encode(data, { replacer: (key, value) => String(key).startsWith('_') ? undefined : value });
+	 * ```
+	 */
+	replacer?: BencodeReplacer;
+
+	/**
+	 * Converts instances of classes to encodable values. Each value is converted by the
+	 * first entry whose class it is an instance of, before its own {@link BENCODE_SERIALIZE}
+	 * or `toBencode()` method is considered. The result is encoded instead of the instance.
+	 * Only applies to encoding operations.
+	 *
+	 * @example
+	 * ```typescript
+	 * const serializers = new Map<BencodeSerializableClass, BencodeSerializer>([
+	 *   [Date, (date: Date) => Math.floor(date.getTime() / 1000)],
+	 *   [PeerInfo, (peer: PeerInfo) => ({ ip: peer.host, port: peer.port })],
+	 * ]);
+	 *
+	 * encode({ 'creation date': new Date() }, { serializers });
+	 * ```
+	 */
+	serializers?: ReadonlyMap<BencodeSerializableClass, BencodeSerializer>;
+}
+
+/**
+ * Configuration options for {@link decodeAsync} function.
+ *
+ * @example
+ * ```typescript
+ * const torrent = await decodeAsync(file.stream(), {
+ *   signal: AbortSignal.timeout(5000),
+ *   maxTotalBytes: 10 * 1024 * 1024,
+ * });
+ * ```
+ */
+export interface IBencodeDecodeAsyncOptions extends IBencodecOptions {
+	/**
+	 * Aborts reading the source. The returned promise rejects with the signal's reason
+	 * and the source is cancelled.
+	 */
+	signal?: AbortSignal;
+}
+
+/**
+ * Selects the string values to decode as JavaScript strings, for the `stringify` option.
+ *
+ * @param path - Dictionary keys and list indices leading from the document root to the string.
+ * @returns `true` to decode the string as a JavaScript string, `false` for a Uint8Array.
+ *
+ * @example
+ * ```typescript
+ * const stringify: BencodeStringifyPredicate = path => path[0] !== 'info' || path[1] !== 'pieces';
+ * ```
+ */
+export type BencodeStringifyPredicate = (path: ReadonlyArray<string | number>) => boolean;
+
+/**
+ * Replaces values while encoding, for the `replacer` option.
+ *
+ * @param key - The dictionary key or list index of the value, or `''` for the root value.
+ * @param value - The value to encode.
+ * @param path - Dictionary keys and list indices leading to the value, `[]` for the root.
+ * @returns The value to encode instead. `null` or `undefined` skips the list item or dictionary entry.
+ */
+export type BencodeReplacer = (key: string | number, value: unknown, path: ReadonlyArray<string | number>) => unknown;
+
+/**
+ * A class whose instances are converted by a {@link BencodeSerializer}.
+ */
+export type BencodeSerializableClass = abstract new (...args: never[]) => unknown;
+
+/**
+ * Converts an instance of a class to an encodable value, for the `serializers` option.
+ *
+ * @param value - The instance.
+ * @returns The value to encode instead.
+ */
+export type BencodeSerializer = (value: never) => unknown;
+
+/**
+ * Key of the method an object can define to choose how it is encoded.
+ *
+ * The method is called without arguments and its result is encoded instead of the object.
+ * It takes precedence over a `toBencode()` method. Created with `Symbol.for()`, so objects
+ * can define it without importing this package.
+ *
+ * @example
+ * ```typescript
+ * class PeerInfo {
+ *   constructor(public host: string, public port: number) { }
+ *
+ *   [BENCODE_SERIALIZE]() {
+ *     return { ip: this.host, port: this.port };
+ *   }
+ * }
+ *
+ * encode(new PeerInfo('10.0.0.1', 6881));  // 'd2:ip8:10.0.0.14:porti6881ee'
+ * ```
+ */
+export const BENCODE_SERIALIZE: unique symbol = Symbol.for('bencode.serialize');
+
+/**
+ * Result of {@link decodeWithSpans} function.
+ *
+ * @typeParam Type - The type of the decoded value.
+ */
+export interface IBencodeSpansResult<Type = BencodeDecodedValue> {
+	/** The decoded value */
+	value: Type;
+
+	/** Byte offsets of the decoded value and every value nested in it */
+	spans: BencodeSpans;
+}
+
+/**
+ * A problem found by `validate()`.
+ */
+export interface IBencodeValidationIssue {
+	/** The error code `decode()` would throw for the problem */
+	code: BencodeErrorCode;
+
+	/** Human-readable description of the problem */
+	message: string;
+
+	/** Byte offset of the problem in the input */
+	position: number;
+
+	/** List indices and dictionary keys leading to the value with the problem, `[]` for the root */
+	path: Array<string | number>;
+}
+
+/**
+ * The result of `validate()`.
+ */
+export interface IBencodeValidationReport {
+	/** `true` if no problems were found */
+	valid: boolean;
+
+	/** Every problem found, in input order. A problem that prevents reading further is last */
+	issues: Array<IBencodeValidationIssue>;
+}
+
+/**
+ * The result of `isCanonical()`.
+ */
+export interface IBencodeCanonicalReport {
+	/** `true` if the data is exactly its canonical form */
+	canonical: boolean;
+
+	/** Byte offset of the first byte that differs from the canonical form, if not canonical */
+	position?: number;
 }
 
 /**
@@ -103,16 +456,34 @@ export type BencodeDecodedList = Array<BencodeDecodedValue>;
  */
 export type BencodeDecodedDictionary = { [key: string]: BencodeDecodedValue };
 
+/**
+ * A decoded bencode dictionary as a `Map` (with `dictionaryType: 'map'`).
+ *
+ * Keys are the raw key bytes, or strings when `stringify: true`, in input order.
+ *
+ * @see {@link BencodeDecodedValue} for possible value types
+ */
+export type BencodeDecodedMap = Map<Uint8Array | string, BencodeDecodedValue>;
+
 /**
  * Union type representing all possible values returned by the decoder.
  *
- * - `number` - Decoded bencode integers
+ * - `number` - Decoded bencode integers (when `integers` is `'number'`, the default)
+ * - `bigint` - Decoded bencode integers (when `integers` is `'bigint'`, or `'auto'` and the
+ *   value is outside the safe integer range)
  * - `Uint8Array` - Decoded bencode strings (when `stringify: false`, the default)
  * - `string` - Decoded bencode strings (when `stringify: true`)
  * - `BencodeDecodedList` - Decoded bencode lists
- * - `BencodeDecodedDictionary` - Decoded bencode dictionaries
+ * - `BencodeDecodedDictionary` - Decoded bencode dictionaries (when `dictionaryType` is `'object'`, the default)
+ * - `BencodeDecodedMap` - Decoded bencode dictionaries (when `dictionaryType: 'map'`)
  */
-export type BencodeDecodedValue = number | Uint8Array | string | BencodeDecodedList | BencodeDecodedDictionary;
+export type BencodeDecodedValue = number
+	| bigint
+	| Uint8Array
+	| string
+	| BencodeDecodedList
+	| BencodeDecodedDictionary
+	| BencodeDecodedMap;
 
 /**
  * An encodable list (array of encodable values).
@@ -131,11 +502,30 @@ export type BencodeEncodableList = Array<BencodeEncodableValue>;
  */
 export type BencodeEncodableDictionary = { [key: string]: BencodeEncodableValue };
 
+/**
+ * An encodable dictionary as a `Map` with string or byte keys.
+ *
+ * Keys will be sorted by their raw bytes during encoding.
+ *
+ * @see {@link BencodeEncodableValue} for possible value types
+ */
+export type BencodeEncodableMap = Map<string | Uint8Array, BencodeEncodableValue>;
+
+/**
+ * An encodable list given as any iterable other than an array, such as a `Set` or a generator.
+ *
+ * Items are encoded in iteration order.
+ *
+ * @see {@link BencodeEncodableValue} for possible item types
+ */
+export type BencodeEncodableIterable = Iterable<BencodeEncodableValue>;
+
 /**
  * Union type representing all JavaScript values that can be encoded to bencode.
  *
  * **Supported types and their encoding:**
  * - `number` - Encoded as bencode integer. Floats are truncated toward zero.
+ * - `bigint` - Encoded as bencode integer (exact)
  * - `boolean` - Encoded as bencode integer (`true` → `i1e`, `false` → `i0e`)
  * - `string` - Encoded as bencode string (UTF-8 byte length prefix)
  * - `Uint8Array` - Encoded as bencode string (raw bytes)
@@ -143,6 +533,8 @@ export type BencodeEncodableDictionary = { [key: string]: BencodeEncodableValue
  * - `ArrayBufferView` - Encoded as bencode string (e.g., Uint8Array, DataView)
  * - `BencodeEncodableList` - Encoded as bencode list
  * - `BencodeEncodableDictionary` - Encoded as bencode dictionary
+ * - `BencodeEncodableMap` - Encoded as bencode dictionary
+ * - `BencodeEncodableIterable` - Encoded as bencode list (e.g., `Set`)
  * - `null` / `undefined` - Silently skipped in lists and dictionaries
  *
  * @example
@@ -153,9 +545,11 @@ export type BencodeEncodableDictionary = { [key: string]: BencodeEncodableValue
  * encode('hello');         // '5:hello'
  * encode([1, 2, 3]);       // 'li1ei2ei3ee'
  * encode({ a: 1, b: 2 });  // 'd1:ai1e1:bi2ee'
+ * encode(new Set([1, 2]));  // 'li1ei2ee'
  * ```
  */
 export type BencodeEncodableValue = number
+	| bigint
 	| boolean
 	| string
 	| Uint8Array
@@ -163,18 +557,23 @@ export type BencodeEncodableValue = number
 	| ArrayBufferView
 	| BencodeEncodableList
 	| BencodeEncodableDictionary
+	| BencodeEncodableMap
+	| BencodeEncodableIterable
 	| null
 	| undefined;
 
 /**
  * Configuration options for {@link encodeToString} function.
  *
+ * Accepts the encoding-related {@link IBencodecOptions} (e.g. `safeIntegers`)
+ * in addition to the output encoding.
+ *
  * @example
  * ```typescript
  * const str = encodeToString({ foo: 'bar' }, { encoding: 'latin1' });
  * ```
  */
-export interface IBencodeEncodeOptions {
+export interface IBencodeEncodeOptions extends Omit<IBencodecOptions, 'stringify' | 'encoding'> {
 	/**
 	 * Character encoding for string output.
 	 *
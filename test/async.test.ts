@@ -0,0 +1,217 @@
+import * as assert from 'assert';
+import { decodeAsync, BencodeDecodeError, BencodeErrorCode } from '../src/index';
+import { Bytes } from '../src/bytes';
+
+/**
+ * Yields `chunks` one by one, as a Node.js stream would.
+ */
+async function* generate(chunks: Array<Uint8Array | string>): AsyncGenerator<Uint8Array | string> {
+	for (const chunk of chunks) {
+		yield chunk;
+	}
+}
+
+/**
+ * Creates a ReadableStream that enqueues `chunks` and then closes.
+ */
+function readable(chunks: Array<Uint8Array>): ReadableStream<Uint8Array> {
+	return new ReadableStream({
+		start(controller) {
+			chunks.forEach(chunk => controller.enqueue(chunk));
+			controller.close();
+		},
+	});
+}
+
+describe('decodeAsync tests', () => {
+	test('should decode chunks of an async iterable', async () => {
+		const result = await decodeAsync(generate([ 'd3:ba', 'ri42e3:foo', Bytes.fromString('3:bare') ]), { stringify: true });
+		assert.deepStrictEqual(result, { bar: 42, foo: 'bar' });
+	});
+
+	test('should decode a single chunk', async () => {
+		assert.deepStrictEqual(await decodeAsync(generate([ 'li1ei2ee' ])), [ 1, 2 ]);
+	});
+
+	test('should decode chunks of a ReadableStream', async () => {
+		const stream = readable([ Bytes.fromString('4:sp'), Bytes.fromString('am') ]);
+		assert.deepStrictEqual(await decodeAsync(stream), Bytes.fromString('spam'));
+	});
+
+	test('should pass decoding options through', async () => {
+		await expect(decodeAsync(generate([ 'i1', 'ei2e' ]), { strict: true })).rejects.toThrow(BencodeDecodeError);
+		await expect(decodeAsync(generate([ 'lli1eee' ]), { maxDepth: 1 })).rejects.toThrow('Nesting depth 2 exceeds maximum 1');
+	});
+
+	test('should ignore trailing data unless strict, like decode()', async () => {
+		assert.deepStrictEqual(await decodeAsync(generate([ 'i1', 'exyz', 'e' ])), 1);
+		assert.deepStrictEqual(await decodeAsync(generate([ 'i1e', '' ]), { strict: true }), 1);
+
+		try {
+			await decodeAsync(generate([ 'i1e', 'xyz' ]), { strict: true });
+		}
+		catch (error) {
+			expect(error).toBeInstanceOf(BencodeDecodeError);
+			expect((error as BencodeDecodeError).code).toBe(BencodeErrorCode.TRAILING_DATA);
+			expect((error as BencodeDecodeError).position).toBe(3);
+		}
+	});
+
+	test('should resolve as soon as the value is complete and release the source', async () => {
+		let finished = false;
+		const source = (async function* () {
+			try {
+				yield 'd1:a';
+				yield 'i1ee4:spam';
+				await new Promise(() => undefined);
+			}
+			finally {
+				finished = true;
+			}
+		})();
+
+		assert.deepStrictEqual(await decodeAsync(source, { stringify: true }), { a: 1 });
+		expect(finished).toBe(true);
+
+		let cancelled = false;
+		const stream = new ReadableStream<Uint8Array>({
+			start(controller) {
+				controller.enqueue(Bytes.fromString('d1:ai1ee'));
+			},
+			cancel() {
+				cancelled = true;
+			},
+		});
+
+		assert.deepStrictEqual(await decodeAsync(stream, { stringify: true }), { a: 1 });
+		expect(cancelled).toBe(true);
+	});
+
+	test('should reject malformed data before reading the rest of the source', async () => {
+		let reads = 0;
+		const source = (async function* () {
+			for (;;) {
+				reads++;
+				yield 'li1ex';
+			}
+		})();
+
+		try {
+			await decodeAsync(source);
+		}
+		catch (error) {
+			expect(error).toBeInstanceOf(BencodeDecodeError);
+			expect((error as BencodeDecodeError).code).toBe(BencodeErrorCode.INVALID_FORMAT);
+			expect((error as BencodeDecodeError).position).toBe(4);
+		}
+
+		expect(reads).toBe(1);
+	});
+
+	test('should throw BencodeDecodeError with UNEXPECTED_END code when the source ends inside a value', async () => {
+		await expect(decodeAsync(generate([ 'li1e', 'i2' ]))).rejects.toThrow('Unexpected end of data');
+	});
+
+	test('should throw BencodeDecodeError with EMPTY_INPUT code when the source yields no data', async () => {
+		try {
+			await decodeAsync(generate([ '', new Uint8Array(0) ]));
+		}
+		catch (error) {
+			expect(error).toBeInstanceOf(BencodeDecodeError);
+			expect((error as BencodeDecodeError).code).toBe(BencodeErrorCode.EMPTY_INPUT);
+		}
+
+		await expect(decodeAsync(readable([]))).rejects.toThrow('Nothing to decode');
+	});
+
+	describe('Security limit tests', () => {
+		test('should throw BencodeDecodeError with MAX_TOTAL_BYTES_EXCEEDED code before reading the rest of the source', async () => {
+			let reads = 0;
+			const source = (async function* () {
+				for (;;) {
+					reads++;
+					yield '1000:';
+				}
+			})();
+
+			try {
+				await decodeAsync(source, { maxTotalBytes: 12 });
+			}
+			catch (error) {
+				expect(error).toBeInstanceOf(BencodeDecodeError);
+				expect((error as BencodeDecodeError).code).toBe(BencodeErrorCode.MAX_TOTAL_BYTES_EXCEEDED);
+				expect((error as BencodeDecodeError).position).toBe(12);
+			}
+
+			expect(reads).toBe(3);
+		});
+
+		test('should cancel a ReadableStream that exceeds maxTotalBytes', async () => {
+			let cancelled = false;
+			const stream = new ReadableStream<Uint8Array>({
+				pull(controller) {
+					controller.enqueue(Bytes.fromString('1000:'));
+				},
+				cancel() {
+					cancelled = true;
+					throw new Error('cancel failed');
+				},
+			});
+
+			// the decoding error is reported, not the cancellation failure
+			await expect(decodeAsync(stream, { maxTotalBytes: 12 })).rejects.toThrow('Input size exceeds maximum 12');
+			expect(cancelled).toBe(true);
+		});
+
+		test('should allow sources within maxTotalBytes limit', async () => {
+			assert.deepStrictEqual(await decodeAsync(generate([ 'i1', '23e' ]), { maxTotalBytes: 5 }), 123);
+		});
+	});
+
+	describe('AbortSignal tests', () => {
+		test('should reject with the abort reason when the signal is already aborted', async () => {
+			const controller = new AbortController();
+			const reason = new Error('aborted');
+			controller.abort(reason);
+
+			await expect(decodeAsync(generate([ 'i1e' ]), { signal: controller.signal })).rejects.toBe(reason);
+		});
+
+		test('should reject with the abort reason while waiting for the next chunk', async () => {
+			const controller = new AbortController();
+			const reason = new Error('aborted');
+			let cancelled = false;
+			const stream = new ReadableStream<Uint8Array>({
+				start(streamController) {
+					streamController.enqueue(Bytes.fromString('li1e'));
+				},
+				cancel() {
+					cancelled = true;
+				},
+			});
+
+			const decoding = decodeAsync(stream, { signal: controller.signal });
+			setTimeout(() => controller.abort(reason), 10);
+
+			await expect(decoding).rejects.toBe(reason);
+			expect(cancelled).toBe(true);
+		});
+
+		test('should decode normally when the signal is not aborted', async () => {
+			const controller = new AbortController();
+			const stream = readable([ Bytes.fromString('i4'), Bytes.fromString('2e') ]);
+
+			assert.deepStrictEqual(await decodeAsync(stream, { signal: controller.signal }), 42);
+		});
+
+		test('should reject with source errors', async () => {
+			const controller = new AbortController();
+			const source = (async function* () {
+				yield 'li1e';
+				throw new Error('connection reset');
+			})();
+
+			await expect(decodeAsync(source, { signal: controller.signal })).rejects.toThrow('connection reset');
+		});
+	});
+});
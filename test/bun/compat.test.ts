@@ -1,6 +1,6 @@
 import { expect, test, describe } from 'bun:test';
 
-import { encode, decode, BencodeDecodeError, BencodeErrorCode } from '../../lib/index.js';
+import { encode, decode, BencodeDecodeError, BencodeErrorCode, BencodeDecodeStream, BencodeEncodeStream } from '../../lib/index.js';
 
 describe('bencodec Bun compatibility', () => {
 	test('encode/decode roundtrip - integer', () => {
@@ -66,4 +66,21 @@ describe('bencodec Bun compatibility', () => {
 		expect(typeof BencodeErrorCode.EMPTY_INPUT).toBe('string');
 		expect(typeof BencodeErrorCode.UNEXPECTED_END).toBe('string');
 	});
+
+	test('TransformStream roundtrip', async () => {
+		const values = [ 42, { foo: 'bar' }, [ 1, 2 ]];
+		const source = new ReadableStream({
+			start(controller) {
+				values.forEach(value => controller.enqueue(value));
+				controller.close();
+			},
+		});
+		const output = [];
+
+		for await (const value of source.pipeThrough(new BencodeEncodeStream()).pipeThrough(new BencodeDecodeStream({ stringify: true }))) {
+			output.push(value);
+		}
+
+		expect(output).toEqual(values);
+	});
 });
@@ -76,6 +76,21 @@ describe('Bytes utility class', () => {
 		});
 	});
 
+	describe('tryToString', () => {
+		test('should convert valid UTF-8 to string', () => {
+			expect(Bytes.tryToString(Bytes.fromString('héllo'))).toBe('héllo');
+		});
+
+		test('should keep a byte order mark', () => {
+			expect(Bytes.tryToString(new Uint8Array([ 0xef, 0xbb, 0xbf, 0x61 ]))).toBe('\ufeffa');
+		});
+
+		test('should return null for invalid UTF-8', () => {
+			expect(Bytes.tryToString(new Uint8Array([ 0x61, 0xff ]))).toBeNull();
+			expect(Bytes.tryToString(new Uint8Array([ 0xc3 ]))).toBeNull();
+		});
+	});
+
 	describe('concat', () => {
 		test('should concatenate multiple Uint8Arrays', () => {
 			const a = new Uint8Array([ 1, 2 ]);
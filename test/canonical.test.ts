@@ -0,0 +1,80 @@
+import * as assert from 'assert';
+import { canonicalize, isCanonical, BencodeDecodeError, BencodeErrorCode } from '../src/index';
+import { Bytes } from '../src/bytes';
+
+describe('canonicalize tests', () => {
+	test('should sort dictionary keys by raw bytes', () => {
+		assert.strictEqual(Bytes.toString(canonicalize('d1:bi1e1:ad1:z0:1:y0:ee')), 'd1:ad1:y0:1:z0:e1:bi1ee');
+
+		const data = Bytes.concat([
+			Bytes.fromString('d3:'), new Uint8Array([ 0xef, 0xbc, 0xa1 ]), Bytes.fromString('i1e4:'), new Uint8Array([ 0xf0, 0x9f, 0x98, 0x80 ]), Bytes.fromString('i2ee'),
+		]);
+
+		assert.deepStrictEqual(canonicalize(data), data);
+	});
+
+	test('should rewrite non-canonical integers and string lengths', () => {
+		assert.strictEqual(Bytes.toString(canonicalize('li+1ei1.5eiei-3.9e03:abc4spam1.0:xe')), 'li1ei1ei0ei-3e3:abc4:spam1:xe');
+	});
+
+	test('should drop trailing data and repeated keys', () => {
+		assert.strictEqual(Bytes.toString(canonicalize('d1:ai1e1:ai2eei3e')), 'd1:ai2ee');
+		assert.strictEqual(Bytes.toString(canonicalize('d1:ai1e1:ai2ee', { duplicateKeys: 'first' })), 'd1:ai1ee');
+	});
+
+	test('should keep binary strings and large integers exactly', () => {
+		const data = Bytes.concat([ Bytes.fromString('l2:'), new Uint8Array([ 0x00, 0xff ]), Bytes.fromString('i18446744073709551615ei-9007199254740993ee') ]);
+
+		assert.deepStrictEqual(canonicalize(data), data);
+		const unsorted = Bytes.fromString('d2:\xff\xfe0:2:xxi+9007199254740993ee', 'latin1');
+
+		assert.deepStrictEqual(canonicalize(unsorted), Bytes.fromString('d2:xxi9007199254740993e2:\xff\xfe0:e', 'latin1'));
+	});
+
+	test('should canonicalize deeply nested data', () => {
+		const data = 'l'.repeat(100000) + 'e'.repeat(100000);
+
+		assert.strictEqual(Bytes.toString(canonicalize(data)), data);
+		assert.strictEqual(Bytes.toString(canonicalize('d1:a'.repeat(50000) + 'i+1e' + 'e'.repeat(50000))), 'd1:a'.repeat(50000) + 'i1e' + 'e'.repeat(50000));
+	});
+
+	test('should throw BencodeDecodeError for data that cannot be decoded', () => {
+		try {
+			canonicalize('d1:ai01ee');
+		}
+		catch (error) {
+			expect(error).toBeInstanceOf(BencodeDecodeError);
+			expect((error as BencodeDecodeError).code).toBe(BencodeErrorCode.LEADING_ZEROS);
+		}
+
+		expect(() => canonicalize('d1:ai1e1:ai2ee', { duplicateKeys: 'error' })).toThrow('duplicate dictionary key');
+		expect(() => canonicalize('lllee', { maxDepth: 2 })).toThrow('Nesting depth 3 exceeds maximum 2');
+	});
+});
+
+describe('isCanonical tests', () => {
+	test('should accept canonical data', () => {
+		assert.deepStrictEqual(isCanonical('d1:ai1e1:bli-1e0:ee'), { canonical: true });
+		assert.deepStrictEqual(isCanonical(Bytes.fromString('d2:\xff\xfei18446744073709551615ee', 'latin1')), { canonical: true });
+	});
+
+	test('should check deeply nested data', () => {
+		assert.deepStrictEqual(isCanonical('l'.repeat(100000) + 'e'.repeat(100000)), { canonical: true });
+		assert.deepStrictEqual(isCanonical('l'.repeat(100000) + 'i+1e' + 'e'.repeat(100000)), { canonical: false, position: 100001 });
+	});
+
+	test('should report the first non-canonical byte', () => {
+		assert.deepStrictEqual(isCanonical('d1:bi1e1:ai2ee'), { canonical: false, position: 3 });
+		assert.deepStrictEqual(isCanonical('li1ei+2ee'), { canonical: false, position: 5 });
+		assert.deepStrictEqual(isCanonical('l4:spam05:helloe'), { canonical: false, position: 7 });
+		assert.deepStrictEqual(isCanonical('l4spame'), { canonical: false, position: 2 });
+		assert.deepStrictEqual(isCanonical('d1:ai1e1:ai1ee'), { canonical: false, position: 7 });
+		assert.deepStrictEqual(isCanonical('i1ei2e'), { canonical: false, position: 3 });
+	});
+
+	test('should report the position of decoding errors', () => {
+		assert.deepStrictEqual(isCanonical('li1ei01ee'), { canonical: false, position: 5 });
+		assert.deepStrictEqual(isCanonical('l'), { canonical: false, position: 1 });
+		assert.deepStrictEqual(isCanonical(''), { canonical: false, position: 0 });
+	});
+});
@@ -1,5 +1,6 @@
 import * as assert from 'assert';
-import { decode, BencodeDecodeError, BencodeErrorCode } from '../src/index';
+import { decode, decodePath, SAFE_DEFAULTS, BencodeDecodeError, BencodeErrorCode } from '../src/index';
+import { BencodeDecoder } from '../src/BencodeDecoder';
 import { Bytes } from '../src/bytes';
 
 describe('Bencode decoder tests', () => {
@@ -91,6 +92,42 @@ describe('Bencode decoder tests', () => {
 		});
 	});
 
+	describe('Copy tests', () => {
+		test('should copy strings out of the input by default', () => {
+			const data = Bytes.fromString('l4:spame');
+			const result = decode(data) as Array<Uint8Array>;
+			data[3] = 0x53;
+
+			assert.deepStrictEqual(result, [ Bytes.fromString('spam') ]);
+			assert.notStrictEqual(result[0].buffer, data.buffer);
+		});
+
+		test('should copy strings out of Buffer input', () => {
+			const data = Buffer.from('l4:spame');
+			const result = decode(data) as Array<Uint8Array>;
+			data[3] = 0x53;
+
+			assert.deepStrictEqual(result, [ Bytes.fromString('spam') ]);
+			assert.strictEqual(Buffer.isBuffer(result[0]), false);
+		});
+
+		test('should return views into the input when copy is false', () => {
+			const data = Bytes.fromString('d3:foo4:spame');
+			const result = decode(data, { copy: false }) as Record<string, Uint8Array>;
+
+			assert.deepStrictEqual(result, { foo: Bytes.fromString('spam') });
+			assert.strictEqual(result.foo.buffer, data.buffer);
+			assert.strictEqual(result.foo.byteOffset, 8);
+
+			data[8] = 0x53;
+			assert.deepStrictEqual(result.foo, Bytes.fromString('Spam'));
+		});
+
+		test('should ignore copy when stringify is true', () => {
+			assert.deepStrictEqual(decode('l4:spame', { copy: false, stringify: true }), [ 'spam' ]);
+		});
+	});
+
 	describe('String tests', () => {
 		test('should decode empty string', () => {
 			const result = decode('0:');
@@ -108,6 +145,25 @@ describe('Bencode decoder tests', () => {
 			assert.deepStrictEqual(result, Bytes.fromString('spam'));
 		});
 
+		test('should throw BencodeDecodeError with INTEGER_OVERFLOW code for unsafe string length', () => {
+			expect(() => decode('9007199254740992:spam')).toThrow(BencodeDecodeError);
+			expect(() => decode('99999999999999999999:spam', { integers: 'bigint' })).toThrow(BencodeDecodeError);
+
+			try {
+				decode('9007199254740992:spam');
+			}
+			catch (error) {
+				expect(error).toBeInstanceOf(BencodeDecodeError);
+				expect((error as BencodeDecodeError).code).toBe(BencodeErrorCode.INTEGER_OVERFLOW);
+				expect((error as BencodeDecodeError).position).toBe(15);
+			}
+		});
+
+		test('should allow leading zeros in safe string lengths', () => {
+			const result = decode('00000000000000000000004:spam');
+			assert.deepStrictEqual(result, Bytes.fromString('spam'));
+		});
+
 		test('should decode string with stringify option', () => {
 			const result = decode('4:spam', { stringify: true });
 			assert.deepStrictEqual(result, 'spam');
@@ -176,6 +232,43 @@ describe('Bencode decoder tests', () => {
 			}
 		});
 
+		test('should decode integers at the safe integer boundary', () => {
+			assert.strictEqual(decode('i9007199254740991e'), Number.MAX_SAFE_INTEGER);
+			assert.strictEqual(decode('i-9007199254740991e'), Number.MIN_SAFE_INTEGER);
+		});
+
+		test('should throw BencodeDecodeError with INTEGER_OVERFLOW code for unsafe integers', () => {
+			expect(() => decode('i9007199254740992e')).toThrow('Invalid bencode: integer exceeds Number.MAX_SAFE_INTEGER');
+			expect(() => decode('i-9007199254740992e')).toThrow('Invalid bencode: integer exceeds Number.MAX_SAFE_INTEGER');
+			expect(() => decode('i18446744073709551615e', { integers: 'number' })).toThrow(BencodeDecodeError);
+
+			try {
+				decode('li1ei18446744073709551615ee');
+			}
+			catch (error) {
+				expect(error).toBeInstanceOf(BencodeDecodeError);
+				expect((error as BencodeDecodeError).code).toBe(BencodeErrorCode.INTEGER_OVERFLOW);
+				// position of the first digit that overflows
+				expect((error as BencodeDecodeError).position).toBe(21);
+			}
+		});
+
+		test('should stop scanning digits once an integer overflows', () => {
+			const data = Bytes.concat([ Bytes.fromString('i'), new Uint8Array(1024 * 1024).fill(0x39), Bytes.fromString('e') ]);
+
+			try {
+				decode(data);
+			}
+			catch (error) {
+				expect((error as BencodeDecodeError).code).toBe(BencodeErrorCode.INTEGER_OVERFLOW);
+				expect((error as BencodeDecodeError).position).toBe(16);
+			}
+		});
+
+		test('should not overflow on fractional digits', () => {
+			assert.strictEqual(decode('i1.99999999999999999999e'), 1);
+		});
+
 		test('should decode float as int', () => {
 			const result = decode('i42.2e');
 			assert.strictEqual(result, 42);
@@ -198,6 +291,47 @@ describe('Bencode decoder tests', () => {
 		});
 	});
 
+	describe('BigInt tests', () => {
+		test('should decode integers as number by default', () => {
+			assert.strictEqual(decode('i42e'), 42);
+			assert.strictEqual(decode('i42e', { integers: 'number' }), 42);
+		});
+
+		test('should decode integers as bigint with integers: bigint', () => {
+			assert.strictEqual(decode('i42e', { integers: 'bigint' }), 42n);
+			assert.strictEqual(decode('i-42e', { integers: 'bigint' }), -42n);
+			assert.strictEqual(decode('i0e', { integers: 'bigint' }), 0n);
+			assert.strictEqual(decode('i18446744073709551615e', { integers: 'bigint' }), 18446744073709551615n);
+			assert.strictEqual(decode('i-9223372036854775808e', { integers: 'bigint' }), -9223372036854775808n);
+		});
+
+		test('should decode only unsafe integers as bigint with integers: auto', () => {
+			assert.strictEqual(decode('i9007199254740991e', { integers: 'auto' }), 9007199254740991);
+			assert.strictEqual(decode('i-9007199254740991e', { integers: 'auto' }), -9007199254740991);
+			assert.strictEqual(decode('i9007199254740993e', { integers: 'auto' }), 9007199254740993n);
+			assert.strictEqual(decode('i-9007199254740993e', { integers: 'auto' }), -9007199254740993n);
+		});
+
+		test('should apply non-standard extensions to bigint integers', () => {
+			assert.strictEqual(decode('i+42e', { integers: 'bigint' }), 42n);
+			assert.strictEqual(decode('i12345678901234567890.9e', { integers: 'auto' }), 12345678901234567890n);
+		});
+
+		test('should keep validating bigint integers', () => {
+			expect(() => decode('i-0e', { integers: 'bigint' })).toThrow('Invalid bencode: negative zero is not allowed');
+			expect(() => decode('i03e', { integers: 'bigint' })).toThrow('Invalid bencode: leading zeros are not allowed');
+		});
+
+		test('should not affect string lengths', () => {
+			assert.deepStrictEqual(decode('4:spam', { integers: 'bigint' }), Bytes.fromString('spam'));
+		});
+
+		test('should decode bigint integers in nested structures', () => {
+			const result = decode('d4:sizei18446744073709551615e5:smalli1ee', { integers: 'auto' });
+			assert.deepStrictEqual(result, { size: 18446744073709551615n, small: 1 });
+		});
+	});
+
 	describe('List tests', () => {
 		test('should decode empty list', () => {
 			const result = decode('le') as Array<unknown>;
@@ -274,6 +408,52 @@ describe('Bencode decoder tests', () => {
 		});
 	});
 
+	describe('Dictionary key tests', () => {
+		test('should throw BencodeDecodeError with INVALID_KEY code for non-string keys', () => {
+			expect(() => decode('di1ei2ee')).toThrow('Invalid bencode: dictionary key must be a string at position 1 (found \'i\')');
+			expect(() => decode('dli1eei1ee')).toThrow('Invalid bencode: dictionary key must be a string at position 1 (found \'l\')');
+			expect(() => decode('d1:ai1edeee', { dictionaryType: 'map' })).toThrow('Invalid bencode: dictionary key must be a string at position 7');
+
+			try {
+				decode('ld1:ai1ex1:bee', { strict: true });
+			}
+			catch (error) {
+				expect(error).toBeInstanceOf(BencodeDecodeError);
+				expect((error as BencodeDecodeError).code).toBe(BencodeErrorCode.INVALID_KEY);
+				expect((error as BencodeDecodeError).position).toBe(8);
+			}
+		});
+	});
+
+	describe('Map dictionary tests', () => {
+		test('should decode dictionaries as Maps with raw keys in input order', () => {
+			const result = decode('d3:fooi1e3:bar4:spame', { dictionaryType: 'map' }) as Map<Uint8Array, unknown>;
+
+			expect(result).toBeInstanceOf(Map);
+			assert.deepStrictEqual([ ...result.keys() ], [ Bytes.fromString('foo'), Bytes.fromString('bar') ]);
+			assert.deepStrictEqual([ ...result.values() ], [ 1, Bytes.fromString('spam') ]);
+		});
+
+		test('should keep keys that are not valid UTF-8 distinct', () => {
+			const data = Bytes.concat([
+				Bytes.fromString('d1:'), new Uint8Array([ 0xfe ]), Bytes.fromString('i1e1:'), new Uint8Array([ 0xff ]), Bytes.fromString('i2ee'),
+			]);
+			const result = decode(data, { dictionaryType: 'map' }) as Map<Uint8Array, unknown>;
+
+			assert.deepStrictEqual([ ...result.keys() ], [ new Uint8Array([ 0xfe ]), new Uint8Array([ 0xff ]) ]);
+			assert.strictEqual(Object.keys(decode(data) as object).length, 1);
+		});
+
+		test('should decode nested dictionaries as Maps with string keys when stringify is true', () => {
+			const result = decode('d1:ad1:bli1eeee', { dictionaryType: 'map', stringify: true });
+			assert.deepStrictEqual(result, new Map([[ 'a', new Map([[ 'b', [ 1 ]]]) ]]));
+		});
+
+		test('should decode dictionaries as objects by default', () => {
+			assert.deepStrictEqual(decode('d1:ai1ee', { dictionaryType: 'object' }), { a: 1 });
+		});
+	});
+
 	describe('Strict mode tests', () => {
 		test('should accept correctly sorted dictionary keys in strict mode', () => {
 			// Keys 'a', 'b', 'c' are in sorted order
@@ -337,8 +517,9 @@ describe('Bencode decoder tests', () => {
 			catch (error) {
 				expect(error).toBeInstanceOf(BencodeDecodeError);
 				expect((error as BencodeDecodeError).code).toBe(BencodeErrorCode.TRAILING_DATA);
-				// position is undefined for trailing data errors
-				expect((error as BencodeDecodeError).position).toBeUndefined();
+				expect((error as BencodeDecodeError).position).toBe(4);
+				assert.deepStrictEqual((error as BencodeDecodeError).path, []);
+				expect((error as BencodeDecodeError).expected).toBe('end of data');
 			}
 		});
 
@@ -385,6 +566,60 @@ describe('Bencode decoder tests', () => {
 			const result = decode('i42ei99e');
 			assert.strictEqual(result, 42);
 		});
+
+		test('should throw BencodeDecodeError with INVALID_INTEGER code for non-standard integers in strict mode', () => {
+			expect(() => decode('i+42e', { strict: true })).toThrow('Invalid bencode: \'+\' sign is not allowed in integer at position 1');
+			expect(() => decode('i3.14e', { strict: true })).toThrow('Invalid bencode: unexpected character in integer at position 2');
+			expect(() => decode('ie', { strict: true })).toThrow('Invalid bencode: integer has no digits at position 1');
+			expect(() => decode('i-e', { strict: true })).toThrow('Invalid bencode: integer has no digits at position 2');
+			expect(() => decode('i-', { strict: true })).toThrow('Unexpected end of data: expected \'e\' to terminate integer');
+
+			try {
+				decode('li1ei4xe', { strictSyntax: true });
+			}
+			catch (error) {
+				expect(error).toBeInstanceOf(BencodeDecodeError);
+				expect((error as BencodeDecodeError).code).toBe(BencodeErrorCode.INVALID_INTEGER);
+				expect((error as BencodeDecodeError).position).toBe(6);
+			}
+		});
+
+		test('should throw BencodeDecodeError with LEADING_ZEROS code for string lengths with leading zeros in strict mode', () => {
+			expect(() => decode('05:hello', { strict: true })).toThrow('Invalid bencode: leading zeros are not allowed in string length at position 0');
+
+			try {
+				decode('l005:helloe', { strictSyntax: true });
+			}
+			catch (error) {
+				expect(error).toBeInstanceOf(BencodeDecodeError);
+				expect((error as BencodeDecodeError).code).toBe(BencodeErrorCode.LEADING_ZEROS);
+				expect((error as BencodeDecodeError).position).toBe(1);
+			}
+
+			assert.deepStrictEqual(decode('0:', { strict: true }), new Uint8Array(0));
+		});
+
+		test('should throw BencodeDecodeError with MISSING_COLON code for string lengths without colon in strict mode', () => {
+			expect(() => decode('5hello', { strict: true })).toThrow('Invalid bencode: expected \':\' after string length at position 1');
+			expect(() => decode('3.5:abcde', { strict: true })).toThrow('Invalid bencode: expected \':\' after string length at position 1');
+			expect(() => decode('5', { strict: true })).toThrow('Unexpected end of data: expected \':\' after string length at position 1');
+
+			try {
+				decode('d3fooi1ee', { strictSyntax: true });
+			}
+			catch (error) {
+				expect(error).toBeInstanceOf(BencodeDecodeError);
+				expect((error as BencodeDecodeError).code).toBe(BencodeErrorCode.MISSING_COLON);
+				expect((error as BencodeDecodeError).position).toBe(2);
+			}
+		});
+
+		test('should accept the non-standard grammar without strict syntax', () => {
+			assert.deepStrictEqual(decode('li+42ei3.14eie3.5:abc5hello05:helloe', { stringify: true }), [
+				42, 3, 0, 'abc', 'hello', 'hello',
+			]);
+			assert.deepStrictEqual(decode('d1:bi1e1:ai2ee', { strictSyntax: true }), { b: 1, a: 2 });
+		});
 	});
 
 	describe('Security limit tests', () => {
@@ -456,6 +691,375 @@ describe('Bencode decoder tests', () => {
 			expect(() => decode('d1:alli1eeee', { maxDepth: 2 }))
 				.toThrow('Nesting depth 3 exceeds maximum 2');
 		});
+
+		test('should decode arbitrarily deep nesting without maxDepth', () => {
+			const depth = 100000;
+			let list = decode('l'.repeat(depth) + 'i1e' + 'e'.repeat(depth)) as Array<unknown>;
+			let dict = decode('d1:a'.repeat(depth) + 'i1e' + 'e'.repeat(depth), { stringify: [ 'a' ] }) as Record<string, unknown>;
+
+			for (let i = 1; i < depth; i++) {
+				list = list[0] as Array<unknown>;
+				dict = dict.a as Record<string, unknown>;
+			}
+
+			assert.deepStrictEqual(list, [ 1 ]);
+			assert.deepStrictEqual(dict, { a: 1 });
+			assert.strictEqual(decodePath('l'.repeat(depth) + 'e'.repeat(depth) + 'i1e', [ 1 ]), undefined);
+		});
+
+		test('should throw BencodeDecodeError with MAX_DEPTH_EXCEEDED code for deep nesting', () => {
+			try {
+				decode('l'.repeat(100000) + 'e'.repeat(100000), { maxDepth: 1000 });
+			}
+			catch (error) {
+				expect(error).toBeInstanceOf(BencodeDecodeError);
+				expect((error as BencodeDecodeError).code).toBe(BencodeErrorCode.MAX_DEPTH_EXCEEDED);
+				expect((error as BencodeDecodeError).position).toBe(1000);
+			}
+		});
+
+		test('should throw BencodeDecodeError with MAX_TOTAL_BYTES_EXCEEDED code when input exceeds maxTotalBytes', () => {
+			expect(() => decode('10:helloworld', { maxTotalBytes: 10 }))
+				.toThrow('Input size 13 exceeds maximum 10');
+
+			try {
+				decode('10:helloworld', { maxTotalBytes: 10 });
+			}
+			catch (error) {
+				expect(error).toBeInstanceOf(BencodeDecodeError);
+				expect((error as BencodeDecodeError).code).toBe(BencodeErrorCode.MAX_TOTAL_BYTES_EXCEEDED);
+				expect((error as BencodeDecodeError).position).toBe(10);
+			}
+		});
+
+		test('should allow input within maxTotalBytes limit', () => {
+			assert.deepStrictEqual(decode('10:helloworld', { maxTotalBytes: 13 }), Bytes.fromString('helloworld'));
+		});
+
+		test('should throw BencodeDecodeError with MAX_LIST_LENGTH_EXCEEDED code when a list exceeds maxListLength', () => {
+			expect(() => decode('li1ei2ei3ee', { maxListLength: 2 })).toThrow('List length 3 exceeds maximum 2');
+			expect(() => decode('d1:ali1ei2eee', { maxListLength: 1 })).toThrow(BencodeDecodeError);
+
+			try {
+				decode('lli1ei2eee', { maxListLength: 1 });
+			}
+			catch (error) {
+				expect(error).toBeInstanceOf(BencodeDecodeError);
+				expect((error as BencodeDecodeError).code).toBe(BencodeErrorCode.MAX_LIST_LENGTH_EXCEEDED);
+				expect((error as BencodeDecodeError).position).toBe(5);
+			}
+
+			assert.deepStrictEqual(decode('li1ei2ee', { maxListLength: 2 }), [ 1, 2 ]);
+		});
+
+		test('should throw BencodeDecodeError with MAX_DICT_KEYS_EXCEEDED code when a dictionary exceeds maxDictKeys', () => {
+			expect(() => decode('d1:ai1e1:bi2ee', { maxDictKeys: 1 })).toThrow('Dictionary key count 2 exceeds maximum 1');
+
+			try {
+				decode('d1:ai1e1:ai2ee', { maxDictKeys: 1 });
+			}
+			catch (error) {
+				expect(error).toBeInstanceOf(BencodeDecodeError);
+				expect((error as BencodeDecodeError).code).toBe(BencodeErrorCode.MAX_DICT_KEYS_EXCEEDED);
+				expect((error as BencodeDecodeError).position).toBe(7);
+			}
+
+			assert.deepStrictEqual(decode('d1:ai1e1:bi2ee', { maxDictKeys: 2 }), { a: 1, b: 2 });
+		});
+
+		test('should throw BencodeDecodeError with MAX_NODES_EXCEEDED code when values exceed maxNodes', () => {
+			expect(() => decode('ll1:ael1:bee', { maxNodes: 4 })).toThrow('Value count 5 exceeds maximum 4');
+
+			try {
+				decode('d1:ali1eee', { maxNodes: 2 });
+			}
+			catch (error) {
+				expect(error).toBeInstanceOf(BencodeDecodeError);
+				expect((error as BencodeDecodeError).code).toBe(BencodeErrorCode.MAX_NODES_EXCEEDED);
+				expect((error as BencodeDecodeError).position).toBe(5);
+			}
+
+			assert.deepStrictEqual(decode('d1:ali1eee', { maxNodes: 3 }), { a: [ 1 ] });
+		});
+
+		test('should count values per top-level value for maxNodes', () => {
+			const decoder = new BencodeDecoder('li1eeli2ee', { maxNodes: 2 });
+
+			assert.deepStrictEqual(decoder.decode(), [ 1 ]);
+			assert.deepStrictEqual(decoder.decode(), [ 2 ]);
+		});
+
+		test('should throw BencodeDecodeError with MAX_INTEGER_DIGITS_EXCEEDED code when an integer exceeds maxIntegerDigits', () => {
+			expect(() => decode('i-12345e', { maxIntegerDigits: 4 })).toThrow('Integer digit count 5 exceeds maximum 4');
+
+			try {
+				decode(`i${'9'.repeat(1000)}e`, { integers: 'bigint', maxIntegerDigits: 20 });
+			}
+			catch (error) {
+				expect(error).toBeInstanceOf(BencodeDecodeError);
+				expect((error as BencodeDecodeError).code).toBe(BencodeErrorCode.MAX_INTEGER_DIGITS_EXCEEDED);
+				expect((error as BencodeDecodeError).position).toBe(21);
+			}
+
+			assert.strictEqual(decode('i-1234e', { maxIntegerDigits: 4 }), -1234);
+		});
+
+		test('should limit integer digits by default in every mode', () => {
+			const digits = '9'.repeat(4301);
+
+			expect(() => decode(`i${digits}e`, { integers: 'bigint' })).toThrow('Integer digit count 4301 exceeds maximum 4300');
+			expect(() => decode(`i${digits}e`, { integers: 'auto' })).toThrow('Integer digit count 4301 exceeds maximum 4300');
+			expect(() => decode(`i1.${'0'.repeat(4299)}e`)).toThrow('Integer digit count 4301 exceeds maximum 4300');
+			assert.strictEqual(decode(`i${'9'.repeat(4300)}e`, { integers: 'bigint' }), BigInt('9'.repeat(4300)));
+			assert.strictEqual(decode(`i${'9'.repeat(5000)}e`, { integers: 'bigint', maxIntegerDigits: 5000 }), BigInt('9'.repeat(5000)));
+		});
+
+		test('should apply limits to skipped values', () => {
+			expect(() => decodePath('li1ei2ei3eei4e', [ 1 ], { maxListLength: 2 })).not.toThrow();
+			expect(() => decodePath('lli1ei2ei3eei4ee', [ 1 ], { maxListLength: 2 })).toThrow('List length 3 exceeds maximum 2');
+			expect(() => decodePath('ld1:ai1e1:bi2eei4ee', [ 1 ], { maxDictKeys: 1 })).toThrow('Dictionary key count 2 exceeds maximum 1');
+			expect(() => decodePath('d1:ai1e1:bi2e1:ci3ee', [ 'c' ], { maxDictKeys: 2 })).toThrow('Dictionary key count 3 exceeds maximum 2');
+			expect(() => decodePath('li1ei2ei3ei4ee', [ 3 ], { maxListLength: 2 })).toThrow('List length 3 exceeds maximum 2');
+			expect(() => decodePath('lli1ei2eei3ee', [ 1 ], { maxNodes: 3 })).toThrow('Value count 4 exceeds maximum 3');
+		});
+
+		test('should export SAFE_DEFAULTS with every resource limit', () => {
+			assert.strictEqual(Object.isFrozen(SAFE_DEFAULTS), true);
+
+			for (const limit of [
+				'maxTotalBytes', 'maxStringLength', 'maxDepth', 'maxListLength', 'maxDictKeys', 'maxNodes', 'maxIntegerDigits',
+			] as const) {
+				expect(SAFE_DEFAULTS[limit]).toBeGreaterThan(0);
+			}
+
+			assert.deepStrictEqual(decode('d4:infod4:name4:testee', SAFE_DEFAULTS), { info: { name: Bytes.fromString('test') } });
+		});
+	});
+
+	describe('Error context tests', () => {
+		test('should include the path of the value being read', () => {
+			try {
+				decode('d4:infod5:filesld6:lengthi1eed6:lengthi01eeeee');
+			}
+			catch (error) {
+				expect((error as BencodeDecodeError).code).toBe(BencodeErrorCode.LEADING_ZEROS);
+				assert.deepStrictEqual((error as BencodeDecodeError).path, [ 'info', 'files', 1, 'length' ]);
+				expect((error as BencodeDecodeError).expected).toBeUndefined();
+			}
+		});
+
+		test('should include the path of the container for errors between values', () => {
+			try {
+				decode('d1:ali1ei2eei3ee');
+			}
+			catch (error) {
+				expect((error as BencodeDecodeError).code).toBe(BencodeErrorCode.INVALID_KEY);
+				assert.deepStrictEqual((error as BencodeDecodeError).path, []);
+				expect((error as BencodeDecodeError).expected).toBe('string');
+			}
+
+			try {
+				decode('ld1:ai1ee', { maxDepth: 1 });
+			}
+			catch (error) {
+				assert.deepStrictEqual((error as BencodeDecodeError).path, [ 0 ]);
+			}
+		});
+
+		test('should include the expected token and the bytes around the position', () => {
+			try {
+				decode('li1e');
+			}
+			catch (error) {
+				expect((error as BencodeDecodeError).expected).toBe('\'e\'');
+				expect((error as BencodeDecodeError).snippet).toBe('6c 69 31 65 [] | li1e[]');
+			}
+
+			try {
+				decode(Bytes.concat([ Bytes.fromString('d4:data3:'), new Uint8Array([ 0x00, 0xff, 0x0a ]), Bytes.fromString('4:infoxi1ee') ]));
+			}
+			catch (error) {
+				expect((error as BencodeDecodeError).position).toBe(18);
+				expect((error as BencodeDecodeError).expected).toBe('\'i\', \'l\', \'d\' or a digit');
+				expect((error as BencodeDecodeError).snippet).toBe('ff 0a 34 3a 69 6e 66 6f [78] 69 31 65 65 | ..4:info[x]i1ee');
+			}
+		});
+	});
+
+	describe('Selective stringify tests', () => {
+		const torrent = 'd8:announce3:url4:infod5:filesld6:lengthi1e4:pathl1:aeee4:name4:test6:pieces2:\xff\xfeee';
+
+		test('should stringify only strings matching path patterns', () => {
+			const result = decode(Bytes.fromString(torrent, 'latin1'), { stringify: [ 'announce', 'info.name', 'info.files.*.path.*' ] });
+
+			assert.deepStrictEqual(result, {
+				announce: 'url',
+				info: {
+					files: [{ length: 1, path: [ 'a' ] }],
+					name: 'test',
+					pieces: new Uint8Array([ 0xff, 0xfe ]),
+				},
+			});
+		});
+
+		test('should match list indices in patterns', () => {
+			assert.deepStrictEqual(decode('l1:a1:bl1:cee', { stringify: [ '1', '2.0' ] }), [ Bytes.fromString('a'), 'b', [ 'c' ]]);
+			assert.deepStrictEqual(decode('4:spam', { stringify: [ '' ] }), Bytes.fromString('spam'));
+			assert.deepStrictEqual(decode('4:spam', { stringify: [] }), Bytes.fromString('spam'));
+		});
+
+		test('should stringify strings selected by a predicate', () => {
+			const paths: Array<ReadonlyArray<string | number>> = [];
+			const result = decode('d1:a1:x1:bl1:yee', {
+				stringify: path => {
+					paths.push(path);
+
+					return path[0] === 'b';
+				},
+			});
+
+			assert.deepStrictEqual(result, { a: Bytes.fromString('x'), b: [ 'y' ] });
+			assert.deepStrictEqual(paths, [[ 'a' ], [ 'b', 0 ]]);
+			assert.strictEqual(decode('4:spam', { stringify: path => path.length === 0 }), 'spam');
+		});
+
+		test('should convert dictionary keys with the encoding', () => {
+			const data = Bytes.concat([ Bytes.fromString('d1:'), new Uint8Array([ 0xe9 ]), Bytes.fromString('1:xe') ]);
+			const result = decode(data, { stringify: [], encoding: 'latin1', dictionaryType: 'map' });
+
+			assert.deepStrictEqual(result, new Map([[ 'é', Bytes.fromString('x') ]]));
+		});
+	});
+
+	describe('Automatic stringify tests', () => {
+		test('should return valid UTF-8 strings as strings and others as bytes', () => {
+			const data = Bytes.concat([ Bytes.fromString('l2:hi2:é2:'), new Uint8Array([ 0xff, 0xfe ]), Bytes.fromString('e') ]);
+
+			assert.deepStrictEqual(decode(data, { stringify: 'auto' }), [ 'hi', 'é', new Uint8Array([ 0xff, 0xfe ]) ]);
+		});
+
+		test('should ignore encoding', () => {
+			assert.strictEqual(decode('2:é', { stringify: 'auto', encoding: 'latin1' }), 'é');
+		});
+
+		test('should keep Map keys that are not valid UTF-8 as bytes', () => {
+			const data = Bytes.concat([ Bytes.fromString('d1:'), new Uint8Array([ 0xe9 ]), Bytes.fromString('i1e2:éi2e1:ai3e1:ai4ee') ]);
+			const result = decode(data, { stringify: 'auto', dictionaryType: 'map' });
+
+			assert.deepStrictEqual(result, new Map<string | Uint8Array, number>([[ new Uint8Array([ 0xe9 ]), 1 ], [ 'é', 2 ], [ 'a', 4 ]]));
+		});
+	});
+
+	describe('Prototype safety tests', () => {
+		test('should define __proto__ as an own property without changing the prototype', () => {
+			const result = decode('d9:__proto__d8:pollutedi1eee', { stringify: true }) as Record<string, unknown>;
+
+			assert.strictEqual(Object.getPrototypeOf(result), Object.prototype);
+			assert.deepStrictEqual(Object.keys(result), [ '__proto__' ]);
+			assert.deepStrictEqual(Object.getOwnPropertyDescriptor(result, '__proto__')?.value, { polluted: 1 });
+			assert.strictEqual(({ } as Record<string, unknown>).polluted, undefined);
+		});
+
+		test('should decode dictionaries without a prototype with nullPrototype', () => {
+			const result = decode('d1:ad1:bi1eee', { nullPrototype: true }) as Record<string, Record<string, unknown>>;
+
+			assert.strictEqual(Object.getPrototypeOf(result), null);
+			assert.strictEqual(Object.getPrototypeOf(result.a), null);
+			assert.strictEqual(result.a.b, 1);
+			assert.strictEqual(result.toString, undefined);
+		});
+
+		test('should drop unsafe keys with unsafeKeys: ignore', () => {
+			const result = decode('d11:constructori1e1:ai2e9:prototypei3ee', { unsafeKeys: 'ignore' });
+
+			assert.deepStrictEqual(result, { a: 2 });
+		});
+
+		test('should throw BencodeDecodeError with UNSAFE_KEY code with unsafeKeys: error', () => {
+			expect(() => decode('d1:ai1e9:__proto__dee', { unsafeKeys: 'error' }))
+				.toThrow('Invalid bencode: unsafe dictionary key \'__proto__\' at position 7');
+
+			try {
+				decode('ld11:constructori1eee', { unsafeKeys: 'error' });
+			}
+			catch (error) {
+				expect(error).toBeInstanceOf(BencodeDecodeError);
+				expect((error as BencodeDecodeError).code).toBe(BencodeErrorCode.UNSAFE_KEY);
+				expect((error as BencodeDecodeError).position).toBe(2);
+			}
+		});
+
+		test('should keep unsafe keys of Maps', () => {
+			const result = decode('d9:__proto__i1ee', { dictionaryType: 'map', unsafeKeys: 'error' }) as Map<Uint8Array, unknown>;
+
+			assert.deepStrictEqual([ ...result.values() ], [ 1 ]);
+		});
+
+		test('should deep-freeze lists and dictionaries with freeze', () => {
+			const result = decode('d1:ali1ed1:bi2eeee', { freeze: true }) as { a: [number, Record<string, number>] };
+
+			assert.strictEqual(Object.isFrozen(result), true);
+			assert.strictEqual(Object.isFrozen(result.a), true);
+			assert.strictEqual(Object.isFrozen(result.a[1]), true);
+			assert.strictEqual(Object.isFrozen(decode('d1:ai1ee', { freeze: true, dictionaryType: 'map' })), true);
+			assert.strictEqual(Object.isFrozen(decode('le')), false);
+		});
+	});
+
+	describe('Duplicate key tests', () => {
+		test('should keep the last value of a repeated key by default', () => {
+			assert.deepStrictEqual(decode('d1:ai1e1:bi2e1:ai3ee', { stringify: true }), { a: 3, b: 2 });
+			assert.deepStrictEqual(decode('d1:ai1e1:ai2ee', { duplicateKeys: 'last', stringify: true, dictionaryType: 'map' }), new Map([[ 'a', 2 ]]));
+		});
+
+		test('should keep one entry per raw key in Maps', () => {
+			const result = decode('d1:ai1e1:bi2e1:ai3ee', { dictionaryType: 'map' }) as Map<Uint8Array, unknown>;
+
+			assert.deepStrictEqual([ ...result.keys() ], [ Bytes.fromString('a'), Bytes.fromString('b') ]);
+			assert.deepStrictEqual([ ...result.values() ], [ 3, 2 ]);
+		});
+
+		test('should keep the first value of a repeated key with duplicateKeys: first', () => {
+			assert.deepStrictEqual(decode('d1:ai1e1:bi2e1:ai3ee', { duplicateKeys: 'first' }), { a: 1, b: 2 });
+			assert.deepStrictEqual([ ...(decode('d1:ai1e1:ai2ee', { duplicateKeys: 'first', dictionaryType: 'map' }) as Map<Uint8Array, unknown>).values() ], [ 1 ]);
+		});
+
+		test('should collect the values of a repeated key with duplicateKeys: collect', () => {
+			assert.deepStrictEqual(decode('d1:ai1e1:bi2e1:ai3e1:ai4ee', { duplicateKeys: 'collect' }), { a: [ 1, 3, 4 ], b: 2 });
+			assert.deepStrictEqual(
+				decode('d1:ai1e1:ai2ee', { duplicateKeys: 'collect', dictionaryType: 'map', stringify: true }),
+				new Map([[ 'a', [ 1, 2 ]]]),
+			);
+		});
+
+		test('should freeze collected values with freeze', () => {
+			const result = decode('d1:ai1e1:ai2ee', { duplicateKeys: 'collect', freeze: true }) as { a: number[] };
+
+			assert.strictEqual(Object.isFrozen(result.a), true);
+		});
+
+		test('should throw BencodeDecodeError with DUPLICATE_KEY code with duplicateKeys: error', () => {
+			expect(() => decode('d1:ai1e1:bi2e1:ai3ee', { duplicateKeys: 'error' }))
+				.toThrow('Invalid bencode: duplicate dictionary key \'a\' at position 13');
+
+			try {
+				decode('d1:ai1e1:ai2ee', { duplicateKeys: 'error', strict: true });
+			}
+			catch (error) {
+				expect(error).toBeInstanceOf(BencodeDecodeError);
+				expect((error as BencodeDecodeError).code).toBe(BencodeErrorCode.DUPLICATE_KEY);
+				expect((error as BencodeDecodeError).position).toBe(7);
+			}
+		});
+
+		test('should compare raw keys of Maps by bytes and other keys by string', () => {
+			const data = Bytes.concat([
+				Bytes.fromString('d1:'), new Uint8Array([ 0xfe ]), Bytes.fromString('i1e1:'), new Uint8Array([ 0xff ]), Bytes.fromString('i2ee'),
+			]);
+
+			assert.strictEqual((decode(data, { duplicateKeys: 'error', dictionaryType: 'map' }) as Map<Uint8Array, unknown>).size, 2);
+			expect(() => decode(data, { duplicateKeys: 'error' })).toThrow(BencodeDecodeError);
+		});
 	});
 
 	describe('BencodeDecoder.getCurrentPosition() tests', () => {
@@ -1,6 +1,6 @@
 import { assertEquals, assertThrows } from 'jsr:@std/assert';
 
-import { encode, decode, BencodeDecodeError, BencodeErrorCode } from '../../lib/index.js';
+import { encode, decode, BencodeDecodeError, BencodeErrorCode, BencodeDecodeStream, BencodeEncodeStream } from '../../lib/index.js';
 
 Deno.test('encode/decode roundtrip - integer', () => {
 	const encoded = encode(42);
@@ -68,3 +68,20 @@ Deno.test('BencodeErrorCode enum is accessible', () => {
 	assertEquals(typeof BencodeErrorCode.EMPTY_INPUT, 'string');
 	assertEquals(typeof BencodeErrorCode.UNEXPECTED_END, 'string');
 });
+
+Deno.test('TransformStream roundtrip', async () => {
+	const values = [ 42, { foo: 'bar' }, [ 1, 2 ]];
+	const source = new ReadableStream({
+		start(controller) {
+			values.forEach(value => controller.enqueue(value));
+			controller.close();
+		},
+	});
+	const output = [];
+
+	for await (const value of source.pipeThrough(new BencodeEncodeStream()).pipeThrough(new BencodeDecodeStream({ stringify: true }))) {
+		output.push(value);
+	}
+
+	assertEquals(output, values);
+});
@@ -1,5 +1,16 @@
 import * as assert from 'assert';
-import { encode, encodeToBytes, encodeToString, BencodeEncodeError, BencodeErrorCode } from '../src/index';
+import {
+	decode,
+	encode,
+	encodeToBytes,
+	encodeToString,
+	BencodeEncodableValue,
+	BencodeEncodeError,
+	BencodeErrorCode,
+	BencodeSerializableClass,
+	BencodeSerializer,
+	BENCODE_SERIALIZE,
+} from '../src/index';
 import { Bytes, ByteEncoding } from '../src/bytes';
 
 describe('Bencode encoder test', () => {
@@ -138,6 +149,69 @@ describe('Bencode encoder test', () => {
 		});
 	});
 
+	describe('BigInt tests', () => {
+		test('should encode bigint', () => {
+			assert.deepStrictEqual(encode(42n), Bytes.fromString('i42e'));
+			assert.deepStrictEqual(encode(-42n), Bytes.fromString('i-42e'));
+			assert.deepStrictEqual(encode(0n), Bytes.fromString('i0e'));
+		});
+
+		test('should encode bigint beyond safe integer range exactly', () => {
+			assert.deepStrictEqual(encode(18446744073709551615n), Bytes.fromString('i18446744073709551615e'));
+			assert.deepStrictEqual(encode(-9223372036854775808n), Bytes.fromString('i-9223372036854775808e'));
+		});
+
+		test('should encode bigint in nested structures', () => {
+			const result = encode({ size: 18446744073709551615n, list: [ 1n ] }, { stringify: true });
+			expect(result).toBe('d4:listli1ee4:sizei18446744073709551615ee');
+		});
+	});
+
+	describe('Safe integer tests', () => {
+		test('should encode unsafe numbers without safeIntegers option', () => {
+			assert.deepStrictEqual(encode(2 ** 53), Bytes.fromString('i9007199254740992e'));
+		});
+
+		test('should encode safe numbers with safeIntegers option', () => {
+			assert.deepStrictEqual(encode(Number.MAX_SAFE_INTEGER, { safeIntegers: true }), Bytes.fromString('i9007199254740991e'));
+			assert.deepStrictEqual(encode(-42.9, { safeIntegers: true }), Bytes.fromString('i-42e'));
+			assert.deepStrictEqual(encode(18446744073709551615n, { safeIntegers: true }), Bytes.fromString('i18446744073709551615e'));
+		});
+
+		test('should throw BencodeEncodeError with UNSAFE_INTEGER code for unsafe numbers with safeIntegers option', () => {
+			expect(() => encode(2 ** 53, { safeIntegers: true })).toThrow(BencodeEncodeError);
+			expect(() => encode(-(2 ** 64), { safeIntegers: true })).toThrow(BencodeEncodeError);
+			expect(() => encode(NaN, { safeIntegers: true })).toThrow(BencodeEncodeError);
+			expect(() => encode(Infinity, { safeIntegers: true })).toThrow(BencodeEncodeError);
+
+			try {
+				encode({ nested: [ 2 ** 64 ] }, { safeIntegers: true });
+			}
+			catch (error) {
+				expect(error).toBeInstanceOf(BencodeEncodeError);
+				expect((error as BencodeEncodeError).code).toBe(BencodeErrorCode.UNSAFE_INTEGER);
+				expect((error as BencodeEncodeError).path).toEqual([ 'nested', 0 ]);
+			}
+		});
+
+		test('should throw BencodeEncodeError with UNSAFE_INTEGER code for numbers that are not safe integers in strict mode', () => {
+			try {
+				encode({ a: [ 1e21 ] }, { strict: true });
+			}
+			catch (error) {
+				expect(error).toBeInstanceOf(BencodeEncodeError);
+				expect((error as BencodeEncodeError).code).toBe(BencodeErrorCode.UNSAFE_INTEGER);
+				expect((error as BencodeEncodeError).path).toEqual([ 'a', 0 ]);
+			}
+
+			expect(() => encodeToString(1e21, { strict: true })).toThrow('1e+21 is not a safe integer');
+			expect(() => encodeToString(NaN, { strict: true })).toThrow('NaN is not a safe integer');
+			expect(() => encodeToString(-Infinity, { strict: true })).toThrow('-Infinity is not a safe integer');
+			assert.strictEqual(encodeToString([ -0, Number.MAX_SAFE_INTEGER, 2n ** 64n ], { strict: true }), 'li0ei9007199254740991ei18446744073709551616ee');
+			assert.strictEqual(encodeToString([ 1.5, -2.9 ], { strict: true }), 'li1ei-2ee');
+		});
+	});
+
 	describe('List tests', () => {
 		test('should encode empty list', () => {
 			const result = encode([]);
@@ -180,6 +254,16 @@ describe('Bencode encoder test', () => {
 			const result = encode([ null, undefined, 42 ]);
 			assert.deepStrictEqual(result, Bytes.fromString('li42ee'));
 		});
+
+		test('should encode deeply nested lists and dictionaries', () => {
+			let data: BencodeEncodableValue = [];
+
+			for (let i = 0; i < 50000; i++) {
+				data = i % 2 ? [ data ] : { a: data };
+			}
+
+			assert.deepStrictEqual(encode(data), Bytes.fromString('ld1:a'.repeat(25000) + 'le' + 'ee'.repeat(25000)));
+		});
 	});
 
 	describe('Dictionary tests', () => {
@@ -218,6 +302,247 @@ describe('Bencode encoder test', () => {
 			const result = encode({ bar: null, cow: null, baz: 42 });
 			assert.deepStrictEqual(result, Bytes.fromString('d3:bazi42ee'));
 		});
+
+		test('should sort keys by UTF-8 bytes', () => {
+			const data = { '\u{1F600}': 1, '\uFF61': 2, z: 3 };
+			const expected = 'd1:zi3e3:\uFF61i2e4:\u{1F600}i1ee';
+
+			assert.deepStrictEqual(encodeToString(data), expected);
+			assert.deepStrictEqual(decode(encodeToBytes(data), { strict: true, stringify: true }), data);
+		});
+
+		test('should throw BencodeEncodeError with DUPLICATE_KEY code for keys with the same bytes in strict mode', () => {
+			assert.deepStrictEqual(encodeToString({ '\uD800': 1, '\uDC00': 2 }), 'd3:\uFFFDi1e3:\uFFFDi2ee');
+
+			try {
+				encode({ a: { '\uD800': 1, '\uDC00': 2 } }, { strict: true });
+			}
+			catch (error) {
+				expect(error).toBeInstanceOf(BencodeEncodeError);
+				expect((error as BencodeEncodeError).code).toBe(BencodeErrorCode.DUPLICATE_KEY);
+				expect((error as BencodeEncodeError).path).toEqual([ 'a' ]);
+			}
+
+			const map = new Map<string | Uint8Array, number>([[ 'a', 1 ], [ new Uint8Array([ 0x61 ]), 2 ]]);
+
+			expect(() => encode(map, { strict: true })).toThrow('Dictionary key \'a\' is repeated.');
+			assert.deepStrictEqual(encode({ b: 1, a: { d: 2, c: 3 } }, { strict: true }), Bytes.fromString('d1:ad1:ci3e1:di2ee1:bi1ee'));
+		});
+	});
+
+	describe('Map tests', () => {
+		test('should encode Map with string keys', () => {
+			const result = encode(new Map<string, BencodeEncodableValue>([[ 'foo', 'spam' ], [ 'bar', 42 ]]));
+			assert.deepStrictEqual(result, Bytes.fromString('d3:bari42e3:foo4:spame'));
+		});
+
+		test('should encode Map with binary keys sorted by bytes', () => {
+			const data = new Map<string | Uint8Array, number>([[ new Uint8Array([ 0xff ]), 1 ], [ 'é', 2 ], [ new Uint8Array([ 0x61 ]), 3 ]]);
+			const result = encodeToBytes(data);
+			const expected = Bytes.concat([
+				Bytes.fromString('d1:ai3e2:'),
+				Bytes.fromString('é'),
+				Bytes.fromString('i2e1:'),
+				new Uint8Array([ 0xff ]),
+				Bytes.fromString('i1ee'),
+			]);
+			assert.deepStrictEqual(result, expected);
+		});
+
+		test('should encode nested Maps and skip null and undefined values', () => {
+			const result = encode(new Map<string, BencodeEncodableValue>([[ 'a', new Map([[ 'b', [ 1 ]]]) ], [ 'c', null ], [ 'd', undefined ]]));
+			assert.deepStrictEqual(result, Bytes.fromString('d1:ad1:bli1eeee'));
+		});
+
+		test('should throw BencodeEncodeError with UNSUPPORTED_TYPE code for unsupported key types', () => {
+			try {
+				// @ts-ignore - for testing purposes
+				encode({ a: new Map([[ 1, 'one' ]]) });
+			}
+			catch (error) {
+				expect(error).toBeInstanceOf(BencodeEncodeError);
+				expect((error as BencodeEncodeError).code).toBe(BencodeErrorCode.UNSUPPORTED_TYPE);
+				expect((error as BencodeEncodeError).path).toEqual([ 'a' ]);
+			}
+		});
+
+		test('should throw BencodeEncodeError with CIRCULAR_REFERENCE code for circular reference in Map', () => {
+			const map = new Map<string, BencodeEncodableValue>();
+			map.set('self', map);
+
+			try {
+				encode(map);
+			}
+			catch (error) {
+				expect(error).toBeInstanceOf(BencodeEncodeError);
+				expect((error as BencodeEncodeError).code).toBe(BencodeErrorCode.CIRCULAR_REFERENCE);
+				expect((error as BencodeEncodeError).path).toEqual([ 'self' ]);
+			}
+		});
+
+		test('should roundtrip decoded Maps', () => {
+			const data = Bytes.concat([
+				Bytes.fromString('d1:'), new Uint8Array([ 0xfe ]), Bytes.fromString('i1e1:'), new Uint8Array([ 0xff ]), Bytes.fromString('i2ee'),
+			]);
+			assert.deepStrictEqual(encodeToBytes(decode<BencodeEncodableValue>(data, { dictionaryType: 'map' })), data);
+		});
+	});
+
+	describe('Set and iterable tests', () => {
+		test('should encode Set as list', () => {
+			assert.deepStrictEqual(encode(new Set([ 'spam', 42 ])), Bytes.fromString('l4:spami42ee'));
+			assert.deepStrictEqual(encode({ files: new Set([ new Set([ 1 ]), null ]) }), Bytes.fromString('d5:fileslli1eeee'));
+		});
+
+		test('should encode other iterables as lists in iteration order', () => {
+			function *items(): Generator<BencodeEncodableValue> {
+				yield 1;
+				yield undefined;
+				yield [ 'a' ];
+			}
+
+			assert.deepStrictEqual(encode(items()), Bytes.fromString('li1el1:aee'));
+			assert.deepStrictEqual(encode(new Map([[ 'a', 1 ]]).values()), Bytes.fromString('li1ee'));
+		});
+
+		test('should encode boxed strings as strings rather than lists of characters', () => {
+			assert.deepStrictEqual(encodeToString(new String('abc')), '3:abc');
+			assert.deepStrictEqual(encodeToString({ name: new String('é'), tags: [ new String('') ] }), 'd4:name2:é4:tagsl0:ee');
+		});
+
+		test('should include the position in the iteration in error paths', () => {
+			try {
+				// @ts-ignore - for testing purposes
+				encode({ a: new Set([ null, 1, () => { } ]) });
+			}
+			catch (error) {
+				expect(error).toBeInstanceOf(BencodeEncodeError);
+				expect((error as BencodeEncodeError).code).toBe(BencodeErrorCode.UNSUPPORTED_TYPE);
+				expect((error as BencodeEncodeError).path).toEqual([ 'a', 2 ]);
+			}
+		});
+
+		test('should throw BencodeEncodeError with CIRCULAR_REFERENCE code for circular reference in Set', () => {
+			const set = new Set<BencodeEncodableValue>();
+			set.add(set);
+
+			expect(() => encode(set)).toThrow('Circular reference detected');
+		});
+	});
+
+	describe('Custom serialization tests', () => {
+		class PeerInfo {
+
+			public constructor(public host: string, public port: number) { }
+
+			public [BENCODE_SERIALIZE](): BencodeEncodableValue {
+				return { ip: this.host, port: this.port };
+			}
+
+			public toBencode(): BencodeEncodableValue {
+				return 'unused';
+			}
+
+		}
+
+		test('should encode the result of the serialize symbol method', () => {
+			assert.deepStrictEqual(encodeToString([ new PeerInfo('10.0.0.1', 6881) ]), 'ld2:ip8:10.0.0.14:porti6881eee');
+			assert.deepStrictEqual(encodeToString({ [Symbol.for('bencode.serialize')]: () => 1 }), 'i1e');
+		});
+
+		test('should encode the result of toBencode()', () => {
+			const value = { secret: 1, toBencode: () => ({ public: 2 }) };
+
+			assert.deepStrictEqual(encodeToString({ a: value }), 'd1:ad6:publici2eee');
+		});
+
+		test('should convert instances with the first matching serializer', () => {
+			class SeedInfo extends PeerInfo { }
+			const serializers = new Map<BencodeSerializableClass, BencodeSerializer>([
+				[ Date, (date: Date) => date.getTime() / 1000 ],
+				[ PeerInfo, (peer: PeerInfo) => `${peer.host}:${peer.port}` ],
+				[ SeedInfo, () => 'unused' ],
+			]);
+			const data = { 'creation date': new Date(1000000), peers: new Set([ new SeedInfo('a', 1) ]) };
+
+			assert.deepStrictEqual(encodeToString(data, { serializers }), 'd13:creation datei1000e5:peersl3:a:1ee');
+			assert.deepStrictEqual(encodeToString(new Date(0)), 'de');
+		});
+
+		test('should replace values with the replacer', () => {
+			const calls: Array<[string | number, unknown, ReadonlyArray<string | number>]> = [];
+			const result = encodeToString({ a: [ 1, 2 ], _b: 3, c: new Map([[ 'd', new PeerInfo('x', 1) ]]) }, {
+				replacer: (key, value, path) => {
+					calls.push([ key, value, path ]);
+
+					return typeof key === 'string' && key.startsWith('_') ? undefined : value;
+				},
+			});
+
+			assert.strictEqual(result, 'd1:ali1ei2ee1:cd1:dd2:ip1:x4:porti1eeee');
+			assert.deepStrictEqual(calls.map(([ key, , path ]) => [ key, path ]), [
+				[ '', []],
+				[ 'a', [ 'a' ]],
+				[ '_b', [ '_b' ]],
+				[ 'c', [ 'c' ]],
+				[ 0, [ 'a', 0 ]],
+				[ 1, [ 'a', 1 ]],
+				[ 'd', [ 'c', 'd' ]],
+				[ 'ip', [ 'c', 'd', 'ip' ]],
+				[ 'port', [ 'c', 'd', 'port' ]],
+			]);
+			assert.deepStrictEqual(calls[6][1], { ip: 'x', port: 1 });
+		});
+
+		test('should skip list items and Map entries replaced with undefined', () => {
+			const replacer = (_key: string | number, value: unknown): unknown => {
+				return value === 2 ? undefined : value;
+			};
+
+			assert.strictEqual(encodeToString([ 1, 2, 3 ], { replacer }), 'li1ei3ee');
+			assert.strictEqual(encodeToString(new Map([[ 'a', 1 ], [ 'b', 2 ]]), { replacer }), 'd1:ai1ee');
+			assert.strictEqual(encodeToString(1, { replacer: () => 'root' }), '4:root');
+		});
+
+		test('should include the path in errors for serialized values', () => {
+			try {
+				encode({ a: [{ toBencode: () => Symbol('x') }] });
+			}
+			catch (error) {
+				expect(error).toBeInstanceOf(BencodeEncodeError);
+				expect((error as BencodeEncodeError).code).toBe(BencodeErrorCode.UNSUPPORTED_TYPE);
+				expect((error as BencodeEncodeError).path).toEqual([ 'a', 0 ]);
+			}
+		});
+
+		test('should throw BencodeEncodeError with CIRCULAR_REFERENCE code for values that serialize to themselves', () => {
+			const node = { toBencode(): unknown {
+				return { child: this };
+			} };
+
+			try {
+				encode({ root: node });
+			}
+			catch (error) {
+				expect(error).toBeInstanceOf(BencodeEncodeError);
+				expect((error as BencodeEncodeError).code).toBe(BencodeErrorCode.CIRCULAR_REFERENCE);
+				expect((error as BencodeEncodeError).path).toEqual([ 'root', 'child' ]);
+			}
+
+			const serializers = new Map<BencodeSerializableClass, BencodeSerializer>([[ PeerInfo, (peer: PeerInfo) => [ peer ] ]]);
+			expect(() => encode(new PeerInfo('a', 1), { serializers })).toThrow('Circular reference detected');
+		});
+
+		test('should encode values that serialize to themselves or repeat without a cycle', () => {
+			const date = new Date(1000);
+			const serializers = new Map<BencodeSerializableClass, BencodeSerializer>([[ Date, (value: Date) => ({ ms: value.getTime() }) ]]);
+
+			assert.strictEqual(encodeToString({ a: date, b: [ date ] }, { serializers }), 'd1:ad2:msi1000ee1:bld2:msi1000eeee');
+			const self = Object.defineProperty({ x: 1 }, 'toBencode', { value(): unknown {
+				return this;
+			} });
+			assert.strictEqual(encodeToString(self), 'd1:xi1ee');
+		});
 	});
 
 	test('should stringify encoded data', () => {
@@ -225,6 +550,11 @@ describe('Bencode encoder test', () => {
 		assert.deepStrictEqual(result, 'd3:barl3:cowi42eee');
 	});
 
+	test('should only stringify encoded data for stringify: true', () => {
+		assert.deepStrictEqual(encode('cow', { stringify: [ 'bar' ] }), Bytes.fromString('3:cow'));
+		assert.deepStrictEqual(encode('cow', { stringify: 'auto' }), Bytes.fromString('3:cow'));
+	});
+
 	describe('Circular reference tests', () => {
 		test('should throw BencodeEncodeError with CIRCULAR_REFERENCE code for circular reference in dictionary', () => {
 			const obj: Record<string, unknown> = { foo: 'bar' };
@@ -387,6 +717,16 @@ describe('encodeToBytes', () => {
 		assert.deepStrictEqual(result, Bytes.fromString('d4:name4:test5:valuei42ee'));
 	});
 
+	test('should accept encoding options', () => {
+		assert.deepStrictEqual(encodeToBytes(42n, { safeIntegers: true }), Bytes.fromString('i42e'));
+		expect(() => encodeToBytes(2 ** 64, { safeIntegers: true })).toThrow(BencodeEncodeError);
+	});
+
+	test('should ignore stringify option', () => {
+		const result = encodeToBytes(42, { stringify: true });
+		expect(result).toBeInstanceOf(Uint8Array);
+	});
+
 	test('should throw BencodeEncodeError for circular references', () => {
 		const obj: Record<string, unknown> = { foo: 'bar' };
 		obj.self = obj;
@@ -492,6 +832,11 @@ describe('encodeToString', () => {
 		expect(result).toBe('d4:name4:test5:valuei42ee');
 	});
 
+	test('should accept encoding options', () => {
+		expect(encodeToString(42n, { safeIntegers: true, encoding: 'latin1' })).toBe('i42e');
+		expect(() => encodeToString(2 ** 64, { safeIntegers: true })).toThrow(BencodeEncodeError);
+	});
+
 	test('should throw BencodeEncodeError for circular references', () => {
 		const obj: Record<string, unknown> = { foo: 'bar' };
 		obj.self = obj;
@@ -50,6 +50,28 @@ describe('BencodeError classes', () => {
 			);
 			expect(error.position).toBeUndefined();
 		});
+
+		test('should have context when provided', () => {
+			const error = new BencodeDecodeError(
+				BencodeErrorCode.UNEXPECTED_END,
+				'Unexpected end',
+				3,
+				{ path: [ 'info', 0 ], expected: '\'e\'', snippet: '6c 69 31 [] | li1[]' },
+			);
+			expect(error.path).toEqual([ 'info', 0 ]);
+			expect(error.expected).toBe('\'e\'');
+			expect(error.snippet).toBe('6c 69 31 [] | li1[]');
+		});
+
+		test('should have undefined context when not provided', () => {
+			const error = new BencodeDecodeError(
+				BencodeErrorCode.EMPTY_INPUT,
+				'Nothing to decode',
+			);
+			expect(error.path).toBeUndefined();
+			expect(error.expected).toBeUndefined();
+			expect(error.snippet).toBeUndefined();
+		});
 	});
 
 	describe('BencodeEncodeError', () => {
@@ -107,12 +129,25 @@ describe('BencodeError classes', () => {
 			expect(BencodeErrorCode.INVALID_FORMAT).toBe('INVALID_FORMAT');
 			expect(BencodeErrorCode.LEADING_ZEROS).toBe('LEADING_ZEROS');
 			expect(BencodeErrorCode.NEGATIVE_ZERO).toBe('NEGATIVE_ZERO');
+			expect(BencodeErrorCode.INTEGER_OVERFLOW).toBe('INTEGER_OVERFLOW');
 			expect(BencodeErrorCode.UNSORTED_KEYS).toBe('UNSORTED_KEYS');
 			expect(BencodeErrorCode.TRAILING_DATA).toBe('TRAILING_DATA');
+			expect(BencodeErrorCode.UNSAFE_KEY).toBe('UNSAFE_KEY');
+			expect(BencodeErrorCode.DUPLICATE_KEY).toBe('DUPLICATE_KEY');
+			expect(BencodeErrorCode.INVALID_INTEGER).toBe('INVALID_INTEGER');
+			expect(BencodeErrorCode.MISSING_COLON).toBe('MISSING_COLON');
+			expect(BencodeErrorCode.INVALID_KEY).toBe('INVALID_KEY');
+			expect(BencodeErrorCode.INVALID_UTF8).toBe('INVALID_UTF8');
 			expect(BencodeErrorCode.MAX_DEPTH_EXCEEDED).toBe('MAX_DEPTH_EXCEEDED');
 			expect(BencodeErrorCode.MAX_SIZE_EXCEEDED).toBe('MAX_SIZE_EXCEEDED');
+			expect(BencodeErrorCode.MAX_TOTAL_BYTES_EXCEEDED).toBe('MAX_TOTAL_BYTES_EXCEEDED');
+			expect(BencodeErrorCode.MAX_LIST_LENGTH_EXCEEDED).toBe('MAX_LIST_LENGTH_EXCEEDED');
+			expect(BencodeErrorCode.MAX_DICT_KEYS_EXCEEDED).toBe('MAX_DICT_KEYS_EXCEEDED');
+			expect(BencodeErrorCode.MAX_NODES_EXCEEDED).toBe('MAX_NODES_EXCEEDED');
+			expect(BencodeErrorCode.MAX_INTEGER_DIGITS_EXCEEDED).toBe('MAX_INTEGER_DIGITS_EXCEEDED');
 			expect(BencodeErrorCode.UNSUPPORTED_TYPE).toBe('UNSUPPORTED_TYPE');
 			expect(BencodeErrorCode.CIRCULAR_REFERENCE).toBe('CIRCULAR_REFERENCE');
+			expect(BencodeErrorCode.UNSAFE_INTEGER).toBe('UNSAFE_INTEGER');
 		});
 	});
 });
@@ -0,0 +1,184 @@
+import * as assert from 'assert';
+import { decodePath, extractRaw, BencodeDecodeError, BencodeErrorCode } from '../src/index';
+import { BencodeDecoder } from '../src/BencodeDecoder';
+import { Bytes } from '../src/bytes';
+
+describe('decodePath tests', () => {
+	const torrent = 'd8:announce3:url4:infod5:filesld6:lengthi1e4:pathl1:aeed6:lengthi2e4:pathl1:b1:ceee4:name4:test12:piece lengthi262144eee';
+
+	test('should decode the value at a dictionary path', () => {
+		assert.strictEqual(decodePath(torrent, [ 'info', 'piece length' ]), 262144);
+		assert.strictEqual(decodePath(torrent, [ 'info', 'name' ], { stringify: true }), 'test');
+		assert.deepStrictEqual(decodePath(torrent, [ 'announce' ]), Bytes.fromString('url'));
+	});
+
+	test('should decode the value at a list index', () => {
+		assert.deepStrictEqual(decodePath(torrent, [ 'info', 'files', 1 ], { stringify: true }), { length: 2, path: [ 'b', 'c' ] });
+		assert.strictEqual(decodePath(torrent, [
+			'info', 'files', 1, 'path', 1,
+		], { stringify: true }), 'c');
+		assert.strictEqual(decodePath('li1e4:spamli2eed1:ai3eei4ee', [ 4 ]), 4);
+	});
+
+	test('should decode the root value for an empty path', () => {
+		assert.deepStrictEqual(decodePath('li1ee', []), [ 1 ]);
+	});
+
+	test('should return undefined if there is no value at the path', () => {
+		assert.strictEqual(decodePath(torrent, [ 'missing' ]), undefined);
+		assert.strictEqual(decodePath(torrent, [ 'info', 'files', 2 ]), undefined);
+		assert.strictEqual(decodePath('le', [ 0 ]), undefined);
+		assert.strictEqual(decodePath('li1ee', [ 2 ]), undefined);
+		assert.strictEqual(decodePath(torrent, [ 0 ]), undefined);
+		assert.strictEqual(decodePath(torrent, [ 'info', 'files', 'length' ]), undefined);
+		assert.strictEqual(decodePath(torrent, [ 'announce', 'url' ]), undefined);
+	});
+
+	test('should match keys by bytes', () => {
+		const data = Bytes.concat([
+			Bytes.fromString('d2:'), new Uint8Array([ 0xff, 0xfe ]), Bytes.fromString('i1e1:'), new Uint8Array([ 0xe9 ]), Bytes.fromString('i2ee'),
+		]);
+
+		assert.strictEqual(decodePath(data, [ new Uint8Array([ 0xff, 0xfe ]) ]), 1);
+		assert.strictEqual(decodePath(data, [ 'é' ]), undefined);
+		assert.strictEqual(decodePath(data, [ 'é' ], { stringify: true, encoding: 'latin1' }), 2);
+	});
+
+	test('should select the last value of a repeated key', () => {
+		assert.strictEqual(decodePath('d1:ai1e1:ai2ee', [ 'a' ]), 2);
+		assert.strictEqual(decodePath('d1:ad1:bi1ee1:bi0e1:ad1:bi2eee', [ 'a', 'b' ]), 2);
+		assert.strictEqual(decodePath('d1:ai1e1:ai2ee', [ 'a' ], { duplicateKeys: 'collect' }), 2);
+		assert.strictEqual(decodePath('d1:ai1e1:ai2ee', [ 'a' ], { duplicateKeys: 'first' }), 1);
+		assert.deepStrictEqual(extractRaw('d1:ai1e1:ai2ee', [ 'a' ]), Bytes.fromString('i2e'));
+	});
+
+	test('should throw BencodeDecodeError with DUPLICATE_KEY code for repeated keys on the path', () => {
+		try {
+			decodePath('d1:ai1e1:bi2e1:bi3ee', [ 'a' ], { duplicateKeys: 'error' });
+		}
+		catch (error) {
+			expect(error).toBeInstanceOf(BencodeDecodeError);
+			expect((error as BencodeDecodeError).code).toBe(BencodeErrorCode.DUPLICATE_KEY);
+			expect((error as BencodeDecodeError).position).toBe(13);
+			assert.deepStrictEqual((error as BencodeDecodeError).path, [ 'b' ]);
+		}
+
+		expect(() => decodePath('d1:ai1e1:ai2ee', [ 'a' ], { duplicateKeys: 'error' })).toThrow('duplicate dictionary key \'a\' at position 7');
+		assert.strictEqual(decodePath('d1:ad1:bi1e1:bi2eee', [ 'b' ], { duplicateKeys: 'error' }), undefined);
+		assert.strictEqual(decodePath('d1:ai1e1:bi2ee', [ 'a' ], { duplicateKeys: 'error' }), 1);
+	});
+
+	test('should compare repeated keys as decode() stores them', () => {
+		const data = Bytes.fromString('d1:\xffi1e1:\xfei2ee', 'latin1');
+
+		expect(() => decodePath(data, [ 'a' ], { duplicateKeys: 'error' })).toThrow(BencodeDecodeError);
+		assert.strictEqual(decodePath(data, [ 'a' ], { duplicateKeys: 'error', dictionaryType: 'map' }), undefined);
+		assert.strictEqual(decodePath(data, [ 'a' ], { duplicateKeys: 'error', dictionaryType: 'map', stringify: 'auto' }), undefined);
+		expect(() => decodePath(data, [ 'a' ], { duplicateKeys: 'error', dictionaryType: 'map', stringify: true })).toThrow(BencodeDecodeError);
+	});
+
+	test('should not read data after the selected value', () => {
+		assert.strictEqual(decodePath('d1:ai1e1:b', [ 'a' ], { duplicateKeys: 'first' }), 1);
+		expect(() => decodePath('d1:ai1e1:b', [ 'a' ])).toThrow(BencodeDecodeError);
+		assert.strictEqual(decodePath('d1:bi1e1:ai2ee', [ 'a' ], { strict: true }), 2);
+	});
+
+	test('should throw BencodeDecodeError for malformed skipped values', () => {
+		try {
+			decodePath('d1:ali1ex1:bi1ee', [ 'b' ]);
+		}
+		catch (error) {
+			expect(error).toBeInstanceOf(BencodeDecodeError);
+			expect((error as BencodeDecodeError).code).toBe(BencodeErrorCode.INVALID_FORMAT);
+			expect((error as BencodeDecodeError).position).toBe(8);
+		}
+
+		expect(() => decodePath('d1:a10:spam', [ 'b' ])).toThrow('expected 10 bytes for string');
+		expect(() => decodePath('li01ei2ee', [ 1 ])).toThrow('leading zeros are not allowed');
+		expect(() => decodePath('ll', [ 1 ])).toThrow('expected \'e\' to terminate list at position 2');
+		expect(() => decodePath('li1e', [ 1 ])).toThrow('expected \'e\' to terminate list');
+		expect(() => decodePath('d1:ai1e', [ 'b' ])).toThrow('expected \'e\' to terminate dictionary');
+		expect(() => decodePath('di1ei2ee', [ 'a' ])).toThrow('dictionary key must be a string at position 1');
+		expect(() => decodePath('ldi1ei2eei3ee', [ 1 ])).toThrow('dictionary key must be a string at position 2');
+	});
+
+	test('should include the path of skipped values in errors', () => {
+		try {
+			decodePath('d1:ad1:bli1ei2ei01eeee1:ci1ee', [ 'a', 'c' ]);
+		}
+		catch (error) {
+			expect((error as BencodeDecodeError).code).toBe(BencodeErrorCode.LEADING_ZEROS);
+			assert.deepStrictEqual((error as BencodeDecodeError).path, [ 'a', 'b', 2 ]);
+		}
+
+		try {
+			decodePath('li1ei2ex', [ 5 ]);
+		}
+		catch (error) {
+			assert.deepStrictEqual((error as BencodeDecodeError).path, [ 2 ]);
+		}
+	});
+
+	test('should match stringify paths from the document root', () => {
+		const paths: Array<ReadonlyArray<string | number>> = [];
+		const stringify = (path: ReadonlyArray<string | number>): boolean => {
+			paths.push(path);
+
+			return true;
+		};
+
+		assert.strictEqual(decodePath('d4:infod4:name4:testee', [ 'info', 'name' ], { stringify: [ 'info.name' ] }), 'test');
+		assert.deepStrictEqual(decodePath('d1:ad1:b1:xee', [ 'a' ], { stringify: [ 'a.b' ] }), { b: 'x' });
+		assert.deepStrictEqual(decodePath('d1:ad1:b1:xee', [ 'a' ], { stringify: [ 'b' ] }), { b: Bytes.fromString('x') });
+		assert.deepStrictEqual(decodePath('l1:xl1:yee', [ 1 ], { stringify: [ '1.*' ] }), [ 'y' ]);
+		assert.deepStrictEqual(decodePath('d1:ad1:bl1:xeee', [ 'a', 'b' ], { stringify }), [ 'x' ]);
+		assert.deepStrictEqual(paths, [[ 'a', 'b', 0 ]]);
+	});
+
+	test('should throw BencodeDecodeError with MAX_DEPTH_EXCEEDED code for deep paths and skipped values', () => {
+		expect(() => decodePath('lllee', [ 0, 0 ], { maxDepth: 2 })).toThrow('Nesting depth 3 exceeds maximum 2');
+		expect(() => decodePath('llleei1ee', [ 1 ], { maxDepth: 2 })).toThrow('Nesting depth 3 exceeds maximum 2');
+		assert.deepStrictEqual(decodePath('lllee', [ 0 ], { maxDepth: 3 }), [[]]);
+	});
+});
+
+describe('extractRaw tests', () => {
+	test('should return the original bytes of the value at the path', () => {
+		assert.deepStrictEqual(extractRaw('d4:infod1:bi+1e1:a0:ee', [ 'info' ]), Bytes.fromString('d1:bi+1e1:a0:e'));
+		assert.deepStrictEqual(extractRaw('li1e4:spame', [ 1 ]), Bytes.fromString('4:spam'));
+		assert.strictEqual(extractRaw('li1ee', [ 1 ]), undefined);
+	});
+
+	test('should copy the bytes unless copy is false', () => {
+		const data = Bytes.fromString('d4:infod6:lengthi1eee');
+
+		assert.notStrictEqual(extractRaw(data, [ 'info' ])!.buffer, data.buffer);
+		assert.strictEqual(extractRaw(data, [ 'info' ], { copy: false })!.buffer, data.buffer);
+	});
+
+	test('should copy the bytes of Buffer input', () => {
+		const data = Buffer.from('d4:name4:spame');
+		const result = extractRaw(data, [ 'name' ]);
+		data[8] = 0x58;
+
+		assert.deepStrictEqual(result, Bytes.fromString('4:spam'));
+	});
+});
+
+describe('BencodeDecoder.skip() and seek() tests', () => {
+	test('should skip values without decoding them', () => {
+		const decoder = new BencodeDecoder('li1ei2eei3e');
+
+		assert.deepStrictEqual(decoder.skip(), Bytes.fromString('li1ei2ee'));
+		assert.strictEqual(decoder.decode(), 3);
+		expect(() => decoder.skip()).toThrow('Unexpected end of data at position 11');
+	});
+
+	test('should continue after the value it seeks to', () => {
+		const decoder = new BencodeDecoder('d1:ai1e1:bi2ee');
+
+		assert.strictEqual(decoder.seek([ 'a' ]), true);
+		assert.strictEqual(decoder.decode(), 1);
+		assert.strictEqual(decoder.getCurrentPosition(), 7);
+	});
+});
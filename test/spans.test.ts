@@ -0,0 +1,167 @@
+import * as assert from 'assert';
+import { decodeWithSpans, encodeToBytes, BencodeSpans, BencodeDecodeError, BencodeErrorCode } from '../src/index';
+import { BencodeDecoder } from '../src/BencodeDecoder';
+import { Bytes } from '../src/bytes';
+
+describe('decodeWithSpans tests', () => {
+	test('should return the decoded value and its spans', () => {
+		const { value, spans } = decodeWithSpans('d3:fooli1ei2eee', { stringify: true });
+
+		assert.deepStrictEqual(value, { foo: [ 1, 2 ] });
+		expect(spans).toBeInstanceOf(BencodeSpans);
+		assert.strictEqual(spans.size, 4);
+	});
+
+	test('should record the span of every value by path', () => {
+		const { spans } = decodeWithSpans('d3:fooli1ei2ee3:zzz4:spame');
+
+		assert.deepStrictEqual(spans.get([]), [ 0, 26 ]);
+		assert.deepStrictEqual(spans.get([ 'foo' ]), [ 6, 14 ]);
+		assert.deepStrictEqual(spans.get([ 'foo', 0 ]), [ 7, 10 ]);
+		assert.deepStrictEqual(spans.get([ 'foo', 1 ]), [ 10, 13 ]);
+		assert.deepStrictEqual(spans.get([ 'zzz' ]), [ 19, 25 ]);
+	});
+
+	test('should return undefined for paths without a value', () => {
+		const { spans } = decodeWithSpans('d3:fooli1eee');
+
+		assert.strictEqual(spans.get([ 'bar' ]), undefined);
+		assert.strictEqual(spans.get([ 'foo', 1 ]), undefined);
+		assert.strictEqual(spans.get([ 'foo', '0' ]), undefined);
+	});
+
+	test('should record the spans of deeply nested values', () => {
+		const { spans } = decodeWithSpans('l'.repeat(100000) + 'e'.repeat(100000));
+
+		assert.strictEqual(spans.size, 100000);
+		assert.deepStrictEqual(spans.get(Array(99999).fill(0)), [ 99999, 100001 ]);
+		assert.deepStrictEqual(spans.pathAt(99999), Array(99999).fill(0));
+	});
+
+	test('should record the span of the last value of a repeated key', () => {
+		const { spans } = decodeWithSpans('d1:ad1:bi1ee1:ad1:ci2eee');
+
+		assert.strictEqual(spans.size, 3);
+		assert.deepStrictEqual(spans.get([ 'a' ]), [ 15, 23 ]);
+		assert.deepStrictEqual(spans.get([ 'a', 'c' ]), [ 19, 22 ]);
+		assert.strictEqual(spans.get([ 'a', 'b' ]), undefined);
+		assert.deepStrictEqual(spans.pathAt(8), [ 'a', 'b' ]);
+	});
+
+	test('should record the span of the first value of a repeated key with duplicateKeys: first', () => {
+		const data = 'd1:ai1e1:ai2ee';
+		const { value, spans } = decodeWithSpans(data, { duplicateKeys: 'first' });
+
+		assert.deepStrictEqual(value, { a: 1 });
+		assert.strictEqual(spans.size, 2);
+		assert.deepStrictEqual(spans.get([ 'a' ]), [ 4, 7 ]);
+		assert.deepStrictEqual(spans.pathAt(5), [ 'a' ]);
+
+		const nested = decodeWithSpans('d1:ad1:bi1ee1:ad1:ci2eee', { duplicateKeys: 'first' }).spans;
+
+		assert.strictEqual(nested.size, 3);
+		assert.deepStrictEqual(nested.get([ 'a', 'b' ]), [ 8, 11 ]);
+		assert.strictEqual(nested.get([ 'a', 'c' ]), undefined);
+	});
+
+	test('should record the span of the last value of a repeated key with duplicateKeys: last', () => {
+		const { value, spans } = decodeWithSpans('d1:ai1e1:ai2ee', { duplicateKeys: 'last' });
+
+		assert.deepStrictEqual(value, { a: 2 });
+		assert.strictEqual(spans.size, 2);
+		assert.deepStrictEqual(spans.get([ 'a' ]), [ 10, 13 ]);
+	});
+
+	test('should record a span for each collected value with duplicateKeys: collect', () => {
+		const data = 'd1:ai1e1:bi2e1:ali3ee1:ai4ee';
+		const { value, spans } = decodeWithSpans(data, { duplicateKeys: 'collect' });
+
+		assert.deepStrictEqual(value, { a: [ 1, [ 3 ], 4 ], b: 2 });
+		assert.strictEqual(spans.size, 6);
+		assert.strictEqual(spans.get([ 'a' ]), undefined);
+		assert.deepStrictEqual(spans.get([ 'a', 0 ]), [ 4, 7 ]);
+		assert.deepStrictEqual(spans.get([ 'a', 1 ]), [ 16, 21 ]);
+		assert.deepStrictEqual(spans.get([ 'a', 1, 0 ]), [ 17, 20 ]);
+		assert.deepStrictEqual(spans.get([ 'a', 2 ]), [ 24, 27 ]);
+		assert.strictEqual(spans.get([ 'a', 3 ]), undefined);
+		assert.deepStrictEqual(spans.get([ 'b' ]), [ 10, 13 ]);
+		assert.deepStrictEqual(spans.pathAt(18), [ 'a', 1, 0 ]);
+		assert.deepStrictEqual(spans.pathAt(25), [ 'a', 2 ]);
+	});
+
+	test('should record the span of a scalar root value', () => {
+		const { value, spans } = decodeWithSpans('4:spam');
+
+		assert.deepStrictEqual(value, Bytes.fromString('spam'));
+		assert.deepStrictEqual(spans.get([]), [ 0, 6 ]);
+	});
+
+	test('should keep the original bytes of non-canonical values', () => {
+		const data = Bytes.fromString('d4:infod1:bi+1e1:a0:ee');
+		const { value, spans } = decodeWithSpans<{ info: Record<string, unknown> }>(data);
+		const [ start, end ] = spans.get([ 'info' ])!;
+
+		assert.deepStrictEqual(data.subarray(start, end), Bytes.fromString('d1:bi+1e1:a0:e'));
+		assert.notDeepStrictEqual(encodeToBytes(value.info), data.subarray(start, end));
+	});
+
+	test('should record offsets of multi-byte UTF-8 strings in bytes', () => {
+		const { spans } = decodeWithSpans('l2:éi1ee');
+
+		assert.deepStrictEqual(spans.get([ 1 ]), [ 5, 8 ]);
+	});
+
+	test('should throw BencodeDecodeError with TRAILING_DATA code in strict mode', () => {
+		try {
+			decodeWithSpans('i1ei2e', { strict: true });
+		}
+		catch (error) {
+			expect(error).toBeInstanceOf(BencodeDecodeError);
+			expect((error as BencodeDecodeError).code).toBe(BencodeErrorCode.TRAILING_DATA);
+		}
+
+		assert.deepStrictEqual(decodeWithSpans('i1ei2e').spans.get([]), [ 0, 3 ]);
+	});
+
+	test('should offset spans by the decoder offset', () => {
+		const decoder = new BencodeDecoder('li1ee', { }, 100);
+
+		assert.deepStrictEqual(decoder.decodeWithSpans().spans.get([ 0 ]), [ 101, 104 ]);
+	});
+
+	test('should stop recording spans after decodeWithSpans', () => {
+		const decoder = new BencodeDecoder('li1ee4:spam');
+
+		expect(() => new BencodeDecoder('li1e').decodeWithSpans()).toThrow(BencodeDecodeError);
+		assert.strictEqual(decoder.decodeWithSpans().spans.size, 2);
+		assert.deepStrictEqual(decoder.decode(), Bytes.fromString('spam'));
+	});
+
+	describe('BencodeSpans.pathAt() tests', () => {
+		const { spans } = decodeWithSpans('d3:fooli1ei2ee3:zzz4:spame');
+
+		test('should return the path of the innermost value containing the offset', () => {
+			assert.deepStrictEqual(spans.pathAt(11), [ 'foo', 1 ]);
+			assert.deepStrictEqual(spans.pathAt(7), [ 'foo', 0 ]);
+			assert.deepStrictEqual(spans.pathAt(24), [ 'zzz' ]);
+		});
+
+		test('should attribute keys and markers to the enclosing container', () => {
+			assert.deepStrictEqual(spans.pathAt(0), []);
+			assert.deepStrictEqual(spans.pathAt(2), []);
+			assert.deepStrictEqual(spans.pathAt(13), [ 'foo' ]);
+			assert.deepStrictEqual(spans.pathAt(25), []);
+		});
+
+		test('should return undefined outside the decoded value', () => {
+			assert.strictEqual(spans.pathAt(-1), undefined);
+			assert.strictEqual(spans.pathAt(26), undefined);
+		});
+
+		test('should return a copy of the path', () => {
+			spans.pathAt(11)!.push('mutated');
+
+			assert.deepStrictEqual(spans.pathAt(11), [ 'foo', 1 ]);
+		});
+	});
+});
@@ -0,0 +1,537 @@
+import * as assert from 'assert';
+import {
+	decode,
+	BencodeStreamDecoder,
+	BencodeDecodeStream,
+	BencodeEncodeStream,
+	BencodeDecodeError,
+	BencodeEncodeError,
+	BencodeErrorCode,
+} from '../src/index';
+import { Bytes } from '../src/bytes';
+
+/**
+ * Feeds `data` to a new decoder in chunks of `size` bytes and collects every emitted value.
+ */
+function pushInChunks(data: string, size: number, options?: ConstructorParameters<typeof BencodeStreamDecoder>[0]): Array<unknown> {
+	const decoder = new BencodeStreamDecoder(options);
+	const bytes = Bytes.fromString(data);
+	const values: Array<unknown> = [];
+
+	for (let i = 0; i < bytes.length; i += size) {
+		values.push(...decoder.push(bytes.subarray(i, i + size)));
+	}
+	values.push(...decoder.end());
+
+	return values;
+}
+
+describe('BencodeStreamDecoder tests', () => {
+	const stream = 'd1:ai1e1:bl3:fooi-2eee4:spami42eli1eli2eeed0:0:e0:i3.5e3.5:abc';
+	const expected = [
+		{ a: 1, b: [ 'foo', -2 ] },
+		'spam',
+		42,
+		[ 1, [ 2 ]],
+		{ '': '' },
+		'',
+		3,
+		'abc',
+	];
+
+	test('should decode concatenated values pushed at once', () => {
+		assert.deepStrictEqual(pushInChunks(stream, stream.length, { stringify: true }), expected);
+	});
+
+	test('should decode concatenated values split at every possible chunk size', () => {
+		for (let size = 1; size < stream.length; size++) {
+			assert.deepStrictEqual(pushInChunks(stream, size, { stringify: true }), expected);
+		}
+	});
+
+	test('should emit values as soon as they are complete', () => {
+		const decoder = new BencodeStreamDecoder({ stringify: true });
+
+		assert.deepStrictEqual(decoder.push('d1:ai'), []);
+		assert.deepStrictEqual(decoder.push('1ee4:spam'), [{ a: 1 }, 'spam' ]);
+		assert.deepStrictEqual(decoder.push('li1'), []);
+		assert.deepStrictEqual(decoder.push('ei2ee'), [[ 1, 2 ]]);
+		assert.deepStrictEqual(decoder.end(), []);
+	});
+
+	test('should accept string chunks', () => {
+		const decoder = new BencodeStreamDecoder();
+		assert.deepStrictEqual(decoder.push('4:sp'), []);
+		assert.deepStrictEqual(decoder.push('am'), [ Bytes.fromString('spam') ]);
+	});
+
+	test('should ignore empty chunks', () => {
+		const decoder = new BencodeStreamDecoder();
+		assert.deepStrictEqual(decoder.push(new Uint8Array(0)), []);
+		assert.deepStrictEqual(decoder.push('i1'), []);
+		assert.deepStrictEqual(decoder.push(''), []);
+		assert.deepStrictEqual(decoder.push('e'), [ 1 ]);
+	});
+
+	test('should decode binary strings spanning chunks', () => {
+		const decoder = new BencodeStreamDecoder();
+		const content = new Uint8Array([
+			0x00, 0xff, 0x65, 0x3a, 0x69,
+		]);
+
+		assert.deepStrictEqual(decoder.push(Bytes.concat([ Bytes.fromString('5:'), content.subarray(0, 2) ])), []);
+		assert.deepStrictEqual(decoder.push(content.subarray(2)), [ content ]);
+	});
+
+	test('should apply decoding options to emitted values', () => {
+		const decoder = new BencodeStreamDecoder({ integers: 'bigint' });
+		assert.deepStrictEqual(decoder.push('i18446744073709551615ei1e'), [ 18446744073709551615n, 1n ]);
+	});
+
+	test('should match decode() for a single value', () => {
+		const data = 'd4:infod6:lengthi1024e4:name8:file.txtee';
+		assert.deepStrictEqual(pushInChunks(data, 3), [ decode(data) ]);
+	});
+
+	test('should track the position of emitted values', () => {
+		const decoder = new BencodeStreamDecoder();
+		decoder.push('i1ei2');
+		assert.strictEqual(decoder.getCurrentPosition(), 3);
+		decoder.push('e');
+		assert.strictEqual(decoder.getCurrentPosition(), 6);
+	});
+
+	describe('end()', () => {
+		test('should return nothing when no value is pending', () => {
+			const decoder = new BencodeStreamDecoder();
+			assert.deepStrictEqual(decoder.end(), []);
+		});
+
+		test('should decode a pending length prefix leniently like decode()', () => {
+			const decoder = new BencodeStreamDecoder();
+			assert.deepStrictEqual(decoder.push('0'), []);
+			assert.deepStrictEqual(decoder.end(), [ decode('0') ]);
+		});
+
+		test('should throw BencodeDecodeError with UNEXPECTED_END code if the stream ends inside a value', () => {
+			for (const data of [
+				'i42', 'l', 'd1:a', '4:sp', 'li1e',
+			]) {
+				const decoder = new BencodeStreamDecoder();
+				decoder.push(data);
+				expect(() => decoder.end()).toThrow(BencodeDecodeError);
+			}
+
+			const decoder = new BencodeStreamDecoder();
+			decoder.push('i1e');
+			decoder.push('li1');
+			decoder.push('ei2');
+
+			try {
+				decoder.end();
+			}
+			catch (error) {
+				expect(error).toBeInstanceOf(BencodeDecodeError);
+				expect((error as BencodeDecodeError).code).toBe(BencodeErrorCode.UNEXPECTED_END);
+				expect((error as BencodeDecodeError).position).toBe(9);
+			}
+		});
+	});
+
+	describe('Error tests', () => {
+		test('should throw BencodeDecodeError with INVALID_FORMAT code and absolute position', () => {
+			const decoder = new BencodeStreamDecoder();
+			decoder.push('i1e');
+			decoder.push('4:sp');
+
+			try {
+				decoder.push('amli1ex');
+			}
+			catch (error) {
+				expect(error).toBeInstanceOf(BencodeDecodeError);
+				expect((error as BencodeDecodeError).code).toBe(BencodeErrorCode.INVALID_FORMAT);
+				expect((error as BencodeDecodeError).position).toBe(13);
+			}
+		});
+
+		test('should throw BencodeDecodeError with INVALID_FORMAT code for unbalanced end marker', () => {
+			const decoder = new BencodeStreamDecoder();
+			expect(() => decoder.push('i1ee')).toThrow(BencodeDecodeError);
+		});
+
+		test('should throw BencodeDecodeError with UNEXPECTED_END code for unterminated integer', () => {
+			const decoder = new BencodeStreamDecoder();
+
+			try {
+				decoder.push('li+1.5');
+				decoder.push('-x');
+			}
+			catch (error) {
+				expect(error).toBeInstanceOf(BencodeDecodeError);
+				expect((error as BencodeDecodeError).code).toBe(BencodeErrorCode.UNEXPECTED_END);
+				expect((error as BencodeDecodeError).position).toBe(6);
+			}
+		});
+
+		test('should report integer errors found while decoding', () => {
+			const decoder = new BencodeStreamDecoder();
+			decoder.push('i1e');
+
+			try {
+				decoder.push('i03e');
+			}
+			catch (error) {
+				expect(error).toBeInstanceOf(BencodeDecodeError);
+				expect((error as BencodeDecodeError).code).toBe(BencodeErrorCode.LEADING_ZEROS);
+				expect((error as BencodeDecodeError).position).toBe(4);
+			}
+		});
+
+		test('should throw BencodeDecodeError with INTEGER_OVERFLOW code for unsafe string length', () => {
+			const decoder = new BencodeStreamDecoder();
+			decoder.push('900719925');
+
+			try {
+				decoder.push('4740992:');
+			}
+			catch (error) {
+				expect(error).toBeInstanceOf(BencodeDecodeError);
+				expect((error as BencodeDecodeError).code).toBe(BencodeErrorCode.INTEGER_OVERFLOW);
+				expect((error as BencodeDecodeError).position).toBe(15);
+			}
+		});
+
+		test('should validate key order in strict mode', () => {
+			const decoder = new BencodeStreamDecoder({ strict: true });
+			assert.deepStrictEqual(decoder.push('d1:ai1ee'), [{ a: 1 }]);
+			expect(() => decoder.push('d1:bi1e1:ai2ee')).toThrow(BencodeDecodeError);
+		});
+
+		test('should validate the integer and string length grammar in strict mode', () => {
+			expect(() => new BencodeStreamDecoder({ strictSyntax: true }).push('i1ei+2e')).toThrow('\'+\' sign is not allowed in integer at position 4');
+			expect(() => new BencodeStreamDecoder({ strict: true }).push('i1e3abc')).toThrow('expected \':\' after string length at position 4');
+		});
+
+		test('should rethrow the first error on later calls', () => {
+			const decoder = new BencodeStreamDecoder();
+			let first: unknown;
+
+			try {
+				decoder.push('x');
+			}
+			catch (error) {
+				first = error;
+			}
+
+			expect(first).toBeInstanceOf(BencodeDecodeError);
+			expect(() => decoder.push('i1e')).toThrow(first as Error);
+			expect(() => decoder.end()).toThrow(first as Error);
+		});
+
+		test('should stop the decoder when end() fails', () => {
+			const decoder = new BencodeStreamDecoder();
+			decoder.push('l');
+			expect(() => decoder.end()).toThrow(BencodeDecodeError);
+			expect(() => decoder.push('e')).toThrow(BencodeDecodeError);
+		});
+	});
+
+	describe('Security limit tests', () => {
+		test('should throw BencodeDecodeError with MAX_DEPTH_EXCEEDED code as soon as nesting exceeds maxDepth', () => {
+			const decoder = new BencodeStreamDecoder({ maxDepth: 2 });
+			decoder.push('ll');
+
+			try {
+				decoder.push('l');
+			}
+			catch (error) {
+				expect(error).toBeInstanceOf(BencodeDecodeError);
+				expect((error as BencodeDecodeError).code).toBe(BencodeErrorCode.MAX_DEPTH_EXCEEDED);
+				expect((error as BencodeDecodeError).position).toBe(2);
+			}
+		});
+
+		test('should allow nesting within maxDepth limit', () => {
+			assert.deepStrictEqual(pushInChunks('lli1eeed1:ad1:bi1eee', 1, { maxDepth: 2 }), [[[ 1 ]], { a: { b: 1 } }]);
+		});
+
+		test('should throw BencodeDecodeError with MAX_SIZE_EXCEEDED code before buffering the string', () => {
+			const decoder = new BencodeStreamDecoder({ maxStringLength: 5 });
+			decoder.push('5:hello');
+
+			try {
+				decoder.push('1000000:');
+			}
+			catch (error) {
+				expect(error).toBeInstanceOf(BencodeDecodeError);
+				expect((error as BencodeDecodeError).code).toBe(BencodeErrorCode.MAX_SIZE_EXCEEDED);
+			}
+
+			expect(() => new BencodeStreamDecoder({ maxStringLength: 5 }).push('10abc')).toThrow(BencodeDecodeError);
+		});
+
+		test('should allow strings within maxStringLength limit', () => {
+			assert.deepStrictEqual(pushInChunks('5:hello', 2, { maxStringLength: 5, stringify: true }), [ 'hello' ]);
+		});
+
+		test('should throw BencodeDecodeError with MAX_INTEGER_DIGITS_EXCEEDED code before the integer ends', () => {
+			const decoder = new BencodeStreamDecoder({ integers: 'bigint', maxIntegerDigits: 20 });
+			assert.deepStrictEqual(decoder.push('i-'), []);
+			assert.deepStrictEqual(decoder.push('9'.repeat(10)), []);
+			assert.deepStrictEqual(decoder.push('9'.repeat(10)), []);
+
+			try {
+				decoder.push('9'.repeat(10));
+			}
+			catch (error) {
+				expect(error).toBeInstanceOf(BencodeDecodeError);
+				expect((error as BencodeDecodeError).code).toBe(BencodeErrorCode.MAX_INTEGER_DIGITS_EXCEEDED);
+				expect((error as BencodeDecodeError).position).toBe(22);
+			}
+		});
+
+		test('should limit integer digits by default before the integer ends', () => {
+			const decoder = new BencodeStreamDecoder({ integers: 'auto' });
+			decoder.push('li1ei');
+
+			for (let i = 0; i < 4; i++) {
+				assert.deepStrictEqual(decoder.push('1.' + '0'.repeat(998) + '1'), []);
+			}
+
+			expect(() => decoder.push('0'.repeat(1000))).toThrow('Integer digit count 4301 exceeds maximum 4300');
+		});
+
+		test('should throw BencodeDecodeError with INTEGER_OVERFLOW code before an unsafe integer ends', () => {
+			const decoder = new BencodeStreamDecoder();
+			assert.deepStrictEqual(decoder.push('i900719925474099'), []);
+
+			try {
+				decoder.push('19');
+			}
+			catch (error) {
+				expect(error).toBeInstanceOf(BencodeDecodeError);
+				expect((error as BencodeDecodeError).code).toBe(BencodeErrorCode.INTEGER_OVERFLOW);
+				expect((error as BencodeDecodeError).position).toBe(17);
+			}
+
+			assert.deepStrictEqual(pushInChunks('i9007199254740993e', 3, { integers: 'auto' }), [ 9007199254740993n ]);
+		});
+
+		test('should throw BencodeDecodeError with MAX_LIST_LENGTH_EXCEEDED code before the list ends', () => {
+			const decoder = new BencodeStreamDecoder({ maxListLength: 2 });
+			assert.deepStrictEqual(decoder.push('li1ei2'), []);
+
+			try {
+				decoder.push('ei3ei4e');
+			}
+			catch (error) {
+				expect(error).toBeInstanceOf(BencodeDecodeError);
+				expect((error as BencodeDecodeError).code).toBe(BencodeErrorCode.MAX_LIST_LENGTH_EXCEEDED);
+				expect((error as BencodeDecodeError).position).toBe(7);
+			}
+
+			assert.deepStrictEqual(pushInChunks('li1eli2ei3eeeli4ei5ee', 1, { maxListLength: 2 }), [[ 1, [ 2, 3 ]], [ 4, 5 ]]);
+		});
+
+		test('should throw BencodeDecodeError with MAX_DICT_KEYS_EXCEEDED code before the dictionary ends', () => {
+			const decoder = new BencodeStreamDecoder({ maxDictKeys: 1 });
+			assert.deepStrictEqual(decoder.push('d1:ai1e'), []);
+
+			try {
+				decoder.push('1:bi2ee');
+			}
+			catch (error) {
+				expect(error).toBeInstanceOf(BencodeDecodeError);
+				expect((error as BencodeDecodeError).code).toBe(BencodeErrorCode.MAX_DICT_KEYS_EXCEEDED);
+				expect((error as BencodeDecodeError).position).toBe(7);
+			}
+
+			assert.deepStrictEqual(pushInChunks('d1:ad1:bi1eee', 1, { maxDictKeys: 1, stringify: true }), [{ a: { b: 1 } }]);
+		});
+
+		test('should throw BencodeDecodeError with MAX_NODES_EXCEEDED code before the value ends', () => {
+			const decoder = new BencodeStreamDecoder({ maxNodes: 3 });
+			assert.deepStrictEqual(decoder.push('li1e'), []);
+
+			try {
+				decoder.push('d1:ai2ee0:e');
+			}
+			catch (error) {
+				expect(error).toBeInstanceOf(BencodeDecodeError);
+				expect((error as BencodeDecodeError).code).toBe(BencodeErrorCode.MAX_NODES_EXCEEDED);
+				expect((error as BencodeDecodeError).position).toBe(8);
+			}
+
+			// the count restarts with every top-level value, and dictionary keys are not counted
+			assert.deepStrictEqual(pushInChunks('ld1:ai1eeeli1ei2ee', 2, { maxNodes: 3 }).length, 2);
+		});
+
+		test('should throw BencodeDecodeError with MAX_TOTAL_BYTES_EXCEEDED code once a value exceeds maxTotalBytes', () => {
+			const decoder = new BencodeStreamDecoder({ maxTotalBytes: 10 });
+			assert.deepStrictEqual(decoder.push('i1ei2e'), [ 1, 2 ]);
+			assert.deepStrictEqual(decoder.push('l5:hel'), []);
+
+			try {
+				decoder.push('lo5:worlde');
+			}
+			catch (error) {
+				expect(error).toBeInstanceOf(BencodeDecodeError);
+				expect((error as BencodeDecodeError).code).toBe(BencodeErrorCode.MAX_TOTAL_BYTES_EXCEEDED);
+				expect((error as BencodeDecodeError).position).toBe(16);
+			}
+
+			expect(() => new BencodeStreamDecoder({ maxTotalBytes: 10 }).push('12:hello world!')).toThrow('Value size exceeds maximum 10');
+		});
+
+		test('should allow streams within maxTotalBytes limit', () => {
+			assert.deepStrictEqual(pushInChunks('i1ei2ei3e', 2, { maxTotalBytes: 9 }), [ 1, 2, 3 ]);
+		});
+
+		test('should apply maxTotalBytes to each value rather than the whole stream', () => {
+			const data = 'li1ei2ee'.repeat(100);
+
+			assert.strictEqual(pushInChunks(data, 7, { maxTotalBytes: 8 }).length, 100);
+			assert.strictEqual(pushInChunks(data, 800, { maxTotalBytes: 8 }).length, 100);
+		});
+	});
+});
+
+/**
+ * Writes `chunks` through `transform` and collects everything read from its readable side.
+ */
+async function pipe<I, O>(transform: TransformStream<I, O>, chunks: Array<I>): Promise<Array<O>> {
+	const writer = transform.writable.getWriter();
+	const reader = transform.readable.getReader();
+	const output: Array<O> = [];
+
+	const writing = (async () => {
+		for (const chunk of chunks) {
+			await writer.write(chunk);
+		}
+		await writer.close();
+	})();
+	// errors are reported through the readable side
+	writing.catch(() => undefined);
+
+	for (let result = await reader.read(); !result.done; result = await reader.read()) {
+		output.push(result.value);
+	}
+	await writing;
+
+	return output;
+}
+
+describe('BencodeDecodeStream tests', () => {
+	test('should be a TransformStream', () => {
+		const stream = new BencodeDecodeStream();
+		expect(stream).toBeInstanceOf(TransformStream);
+	});
+
+	test('should decode values split across chunks', async () => {
+		const chunks = [ 'd1:ai', '1ee4:sp', 'am', Bytes.fromString('li1ei2ee') ];
+		const values = await pipe(new BencodeDecodeStream({ stringify: true }), chunks);
+		assert.deepStrictEqual(values, [{ a: 1 }, 'spam', [ 1, 2 ]]);
+	});
+
+	test('should decode a value completed by the end of the stream', async () => {
+		const values = await pipe(new BencodeDecodeStream(), [ 'i1e0' ]);
+		assert.deepStrictEqual(values, [ 1, new Uint8Array(0) ]);
+	});
+
+	test('should work with pipeThrough', async () => {
+		const source = new ReadableStream<Uint8Array>({
+			start(controller) {
+				controller.enqueue(Bytes.fromString('i1ei'));
+				controller.enqueue(Bytes.fromString('2e'));
+				controller.close();
+			},
+		});
+		const reader = source.pipeThrough(new BencodeDecodeStream()).getReader();
+
+		expect(await reader.read()).toEqual({ done: false, value: 1 });
+		expect(await reader.read()).toEqual({ done: false, value: 2 });
+		expect(await reader.read()).toEqual({ done: true, value: undefined });
+	});
+
+	test('should apply backpressure when the readable side is full', async () => {
+		const stream = new BencodeDecodeStream(undefined, { highWaterMark: 1 }, { highWaterMark: 1 });
+		const writer = stream.writable.getWriter();
+
+		await writer.write('i1ei2e');
+
+		let transformed = false;
+		const write = writer.write('i3e').then(() => {
+			transformed = true;
+		});
+		await new Promise(resolve => setTimeout(resolve, 10));
+		expect(transformed).toBe(false);
+
+		const reader = stream.readable.getReader();
+		expect(await reader.read()).toEqual({ done: false, value: 1 });
+		expect(await reader.read()).toEqual({ done: false, value: 2 });
+		await write;
+		expect(transformed).toBe(true);
+		expect(await reader.read()).toEqual({ done: false, value: 3 });
+	});
+
+	test('should error with BencodeDecodeError at the absolute stream offset', async () => {
+		const promise = pipe(new BencodeDecodeStream(), [ 'i1e', '4:spam', 'li1ex' ]);
+
+		await expect(promise).rejects.toBeInstanceOf(BencodeDecodeError);
+		await expect(promise).rejects.toMatchObject({ code: BencodeErrorCode.INVALID_FORMAT, position: 13 });
+	});
+
+	test('should error with UNEXPECTED_END when the stream ends inside a value', async () => {
+		const promise = pipe(new BencodeDecodeStream(), [ 'i1e', 'li1e' ]);
+		await expect(promise).rejects.toMatchObject({ code: BencodeErrorCode.UNEXPECTED_END, position: 7 });
+	});
+
+	test('should apply security limits', async () => {
+		const promise = pipe(new BencodeDecodeStream({ maxStringLength: 3 }), [ '4:spam' ]);
+		await expect(promise).rejects.toMatchObject({ code: BencodeErrorCode.MAX_SIZE_EXCEEDED });
+	});
+});
+
+describe('BencodeEncodeStream tests', () => {
+	test('should be a TransformStream', () => {
+		const stream = new BencodeEncodeStream();
+		expect(stream).toBeInstanceOf(TransformStream);
+	});
+
+	test('should encode each value into a chunk', async () => {
+		const chunks = await pipe(new BencodeEncodeStream(), [ 42, 'spam', { a: [ 1 ] }]);
+		assert.deepStrictEqual(chunks, [ Bytes.fromString('i42e'), Bytes.fromString('4:spam'), Bytes.fromString('d1:ali1eee') ]);
+	});
+
+	test('should output bytes even with stringify option', async () => {
+		const chunks = await pipe(new BencodeEncodeStream({ stringify: true }), [ 42 ]);
+		assert.deepStrictEqual(chunks, [ Bytes.fromString('i42e') ]);
+	});
+
+	test('should apply encoding options', async () => {
+		const promise = pipe(new BencodeEncodeStream({ safeIntegers: true }), [ 1, 2 ** 64 ]);
+		await expect(promise).rejects.toBeInstanceOf(BencodeEncodeError);
+		await expect(promise).rejects.toMatchObject({ code: BencodeErrorCode.UNSAFE_INTEGER });
+	});
+
+	test('should round-trip through BencodeDecodeStream', async () => {
+		const values = [ 1, { a: 'b' }, [ 'c' ]];
+		const source = new ReadableStream({
+			start(controller) {
+				values.forEach(value => controller.enqueue(value));
+				controller.close();
+			},
+		});
+		const reader = source
+			.pipeThrough(new BencodeEncodeStream())
+			.pipeThrough(new BencodeDecodeStream({ stringify: true }))
+			.getReader();
+		const output: Array<unknown> = [];
+
+		for (let result = await reader.read(); !result.done; result = await reader.read()) {
+			output.push(result.value);
+		}
+
+		assert.deepStrictEqual(output, values);
+	});
+});
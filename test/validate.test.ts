@@ -0,0 +1,109 @@
+import * as assert from 'assert';
+import { validate, SAFE_DEFAULTS, BencodeErrorCode } from '../src/index';
+import { BencodeDecoder } from '../src/BencodeDecoder';
+import { Bytes } from '../src/bytes';
+
+describe('validate tests', () => {
+	const summarize = (data: Uint8Array | string, options?: Parameters<typeof validate>[1]) => validate(data, options).issues
+		.map(({ code, position, path }) => [ code, position, path ]);
+
+	test('should report valid data', () => {
+		assert.deepStrictEqual(validate('d8:announce3:url4:infod6:lengthi1e4:name4:testee'), { valid: true, issues: [] });
+		assert.deepStrictEqual(validate('li1ee', SAFE_DEFAULTS), { valid: true, issues: [] });
+	});
+
+	test('should report every problem with its position and path', () => {
+		const report = validate('d1:bli01ei-0ei+1eiei1.5ee1:ai1e1:ai2ee5:extra');
+
+		assert.strictEqual(report.valid, false);
+		assert.deepStrictEqual(report.issues.map(({ code, position, path }) => [ code, position, path ]), [
+			[ BencodeErrorCode.LEADING_ZEROS, 6, [ 'b', 0 ]],
+			[ BencodeErrorCode.NEGATIVE_ZERO, 13, [ 'b', 1 ]],
+			[ BencodeErrorCode.INVALID_INTEGER, 14, [ 'b', 2 ]],
+			[ BencodeErrorCode.INVALID_INTEGER, 18, [ 'b', 3 ]],
+			[ BencodeErrorCode.INVALID_INTEGER, 21, [ 'b', 4 ]],
+			[ BencodeErrorCode.UNSORTED_KEYS, 28, [ 'a' ]],
+			[ BencodeErrorCode.DUPLICATE_KEY, 31, [ 'a' ]],
+			[ BencodeErrorCode.TRAILING_DATA, 38, []],
+		]);
+		assert.strictEqual(report.issues[0].message, 'Invalid bencode: leading zeros are not allowed at position 6 (found \'0\')');
+	});
+
+	test('should report a repeated key once', () => {
+		assert.deepStrictEqual(summarize('d1:ai1e1:ai2ee'), [[ BencodeErrorCode.DUPLICATE_KEY, 7, [ 'a' ]]]);
+		assert.deepStrictEqual(summarize('d1:ai1e1:bi2e1:ai3e1:ci4ee'), [[ BencodeErrorCode.DUPLICATE_KEY, 13, [ 'a' ]]]);
+		assert.deepStrictEqual(summarize('d1:bi1e1:ai2e1:ai3ee'), [
+			[ BencodeErrorCode.UNSORTED_KEYS, 10, [ 'a' ]],
+			[ BencodeErrorCode.DUPLICATE_KEY, 13, [ 'a' ]],
+		]);
+	});
+
+	test('should report non-canonical string lengths', () => {
+		assert.deepStrictEqual(summarize('l03:abc3abc1.0:ae'), [
+			[ BencodeErrorCode.LEADING_ZEROS, 1, [ 0 ]],
+			[ BencodeErrorCode.MISSING_COLON, 8, [ 1 ]],
+			[ BencodeErrorCode.MISSING_COLON, 12, [ 2 ]],
+		]);
+	});
+
+	test('should report dictionary keys that are not valid UTF-8', () => {
+		const data = Bytes.concat([ Bytes.fromString('d1:ai1e2:'), new Uint8Array([ 0xff, 0xfe ]), Bytes.fromString('i2ee') ]);
+
+		assert.deepStrictEqual(summarize(data), [[ BencodeErrorCode.INVALID_UTF8, 7, [ '��' ]]]);
+	});
+
+	test('should end the report with a problem that prevents reading further', () => {
+		assert.deepStrictEqual(summarize('d1:ai01e1:bi1'), [
+			[ BencodeErrorCode.LEADING_ZEROS, 5, [ 'a' ]],
+			[ BencodeErrorCode.UNEXPECTED_END, 13, [ 'b' ]],
+		]);
+		assert.deepStrictEqual(summarize('d1:ai1ei2ei3ee'), [[ BencodeErrorCode.INVALID_KEY, 7, []]]);
+		assert.deepStrictEqual(summarize('li1e'), [[ BencodeErrorCode.UNEXPECTED_END, 4, []]]);
+		assert.deepStrictEqual(summarize('l3:ab'), [[ BencodeErrorCode.UNEXPECTED_END, 3, [ 0 ]]]);
+		assert.deepStrictEqual(summarize('lli1ei2eee', { maxListLength: 1 }), [[ BencodeErrorCode.MAX_LIST_LENGTH_EXCEEDED, 5, [ 0 ]]]);
+	});
+
+	test('should report problems with the input as a whole', () => {
+		assert.deepStrictEqual(summarize(''), [[ BencodeErrorCode.EMPTY_INPUT, 0, []]]);
+		assert.deepStrictEqual(summarize('i1e', { maxTotalBytes: 2 }), [[ BencodeErrorCode.MAX_TOTAL_BYTES_EXCEEDED, 2, []]]);
+	});
+
+	test('should ignore options that only shape decoded values', () => {
+		assert.deepStrictEqual(validate('d9:__proto__i1e1:ai9007199254740993ee', {
+			unsafeKeys: 'error', integers: 'bigint', stringify: true, dictionaryType: 'map', freeze: true,
+		}), { valid: true, issues: [] });
+	});
+
+	test('should report integers outside the safe integer range unless bigints are returned', () => {
+		assert.deepStrictEqual(summarize('li99999999999999999999999ei01ee'), [
+			[ BencodeErrorCode.INTEGER_OVERFLOW, 17, [ 0 ]],
+			[ BencodeErrorCode.LEADING_ZEROS, 27, [ 1 ]],
+		]);
+		assert.deepStrictEqual(summarize('i-9007199254740992e', { integers: 'number' }), [[ BencodeErrorCode.INTEGER_OVERFLOW, 17, []]]);
+		assert.deepStrictEqual(summarize('i99999999999999999999999e', { integers: 'auto' }), []);
+	});
+
+	test('should report unsafe keys with unsafeKeys: \'error\'', () => {
+		assert.deepStrictEqual(summarize('d9:__proto__i1e1:ai01ee', { unsafeKeys: 'error' }), [
+			[ BencodeErrorCode.UNSAFE_KEY, 1, [ '__proto__' ]],
+			[ BencodeErrorCode.LEADING_ZEROS, 19, [ 'a' ]],
+		]);
+		assert.deepStrictEqual(summarize('d9:__proto__i1ee'), []);
+	});
+});
+
+describe('BencodeDecoder.validate() tests', () => {
+	test('should report positions relative to the stream offset', () => {
+		assert.deepStrictEqual(new BencodeDecoder('i01e', undefined, 100).validate().issues.map(issue => issue.position), [ 101 ]);
+	});
+
+	test('should rethrow errors that are not decoding problems', () => {
+		const decoder = new BencodeDecoder('l4:spame', {
+			stringify: () => {
+				throw new TypeError('Predicate failed');
+			},
+		});
+
+		expect(() => decoder.validate()).toThrow('Predicate failed');
+	});
+});
@@ -0,0 +1,197 @@
+import * as assert from 'assert';
+import { decode, BencodeView, BencodeDecodeError, BencodeErrorCode } from '../src/index';
+import { Bytes } from '../src/bytes';
+
+describe('BencodeView tests', () => {
+	const torrent = 'd8:announce3:url4:infod5:filesld6:lengthi1e4:pathl1:aeed6:lengthi2e4:pathl1:b1:ceee4:name4:testee';
+
+	test('should report the type of the viewed value', () => {
+		const view = new BencodeView('li1e4:spamledee');
+
+		assert.strictEqual(view.type, 'list');
+		assert.strictEqual(view.get(0)?.type, 'integer');
+		assert.strictEqual(view.get(1)?.type, 'string');
+		assert.strictEqual(view.get(2)?.type, 'list');
+		assert.strictEqual(view.get(3)?.type, 'dictionary');
+	});
+
+	test('should materialize values with the view options', () => {
+		const view = new BencodeView(torrent, { stringify: true });
+
+		assert.strictEqual(view.get('info')?.get('name')?.value, 'test');
+		assert.deepStrictEqual(view.get('info')?.get('files')?.get(1)?.value, { length: 2, path: [ 'b', 'c' ] });
+		assert.deepStrictEqual(new BencodeView(torrent).get('announce')?.value, Bytes.fromString('url'));
+	});
+
+	test('should match stringify paths from the document root', () => {
+		const view = new BencodeView(torrent, { stringify: [ 'info.name', 'info.files.*.path.*' ] });
+		const info = view.get('info')!;
+		const paths: Array<ReadonlyArray<string | number>> = [];
+		const stringify = (path: ReadonlyArray<string | number>): boolean => {
+			paths.push(path);
+
+			return true;
+		};
+
+		assert.strictEqual(info.get('name')?.value, 'test');
+		assert.deepStrictEqual([ ...info.get('files')! ].map(file => file.get('path')?.value), [[ 'a' ], [ 'b', 'c' ]]);
+		assert.deepStrictEqual([ ...info.entries() ].map(([ , value ]) => value.type === 'string' && value.value), [ false, 'test' ]);
+		assert.deepStrictEqual(info.get('files')?.get(1)?.get('path')?.value, [ 'b', 'c' ]);
+		assert.deepStrictEqual(new BencodeView(torrent, { stringify: [ 'name' ] }).get('info')?.get('name')?.value, Bytes.fromString('test'));
+
+		const files = new BencodeView(torrent, { stringify }).get('info')?.get('files');
+		assert.deepStrictEqual(files?.get(0)?.get('path')?.value, [ 'a' ]);
+		assert.deepStrictEqual(paths.map(path => path.join('.')), [ 'info.files.0.path.0' ]);
+		assert.strictEqual(typeof paths[0][2], 'number');
+	});
+
+	test('should return the original bytes of a value', () => {
+		const data = Bytes.fromString('d4:infod1:bi+1e1:a0:ee');
+		const info = new BencodeView(data).get('info')!;
+
+		assert.deepStrictEqual(info.raw, Bytes.fromString('d1:bi+1e1:a0:e'));
+		assert.strictEqual(info.raw.buffer, data.buffer);
+	});
+
+	test('should skip nested siblings when looking up values', () => {
+		const view = new BencodeView('ld1:ali1eli2eeeel1:xeli3ee4:lasti4ee');
+
+		assert.strictEqual(view.length, 5);
+		assert.strictEqual(view.get(2)?.get(0)?.value, 3);
+		assert.deepStrictEqual(view.get(3)?.value, Bytes.fromString('last'));
+		assert.strictEqual(view.get(4)?.value, 4);
+	});
+
+	test('should return undefined for missing values', () => {
+		const view = new BencodeView(torrent);
+
+		assert.strictEqual(view.get('missing'), undefined);
+		assert.strictEqual(view.get(0), undefined);
+		assert.strictEqual(view.get('info')?.get('files')?.get(2), undefined);
+		assert.strictEqual(view.get('info')?.get('files')?.get('0'), undefined);
+		assert.strictEqual(view.get('announce')?.get(0), undefined);
+		assert.strictEqual(view.has('info'), true);
+		assert.strictEqual(view.has('missing'), false);
+	});
+
+	test('should look up dictionary keys by bytes', () => {
+		const view = new BencodeView(Bytes.concat([ Bytes.fromString('d2:'), new Uint8Array([ 0xff, 0xfe ]), Bytes.fromString('i1ee') ]));
+
+		assert.strictEqual(view.get(new Uint8Array([ 0xff, 0xfe ]))?.value, 1);
+		assert.strictEqual(view.get(new Uint8Array([ 0xff ])), undefined);
+	});
+
+	test('should compare string keys in the decoding key encoding', () => {
+		const view = new BencodeView(Bytes.concat([ Bytes.fromString('d1:'), new Uint8Array([ 0xe9 ]), Bytes.fromString('i1ee') ]), { stringify: true, encoding: 'latin1' });
+
+		assert.strictEqual(view.get('é')?.value, 1);
+		assert.deepStrictEqual([ ...view.keys() ], [ 'é' ]);
+	});
+
+	test('should return the last value of a repeated key', () => {
+		const view = new BencodeView('d1:ai1e1:ai2ee');
+
+		assert.strictEqual(view.get('a')?.value, 2);
+		assert.strictEqual(view.length, 2);
+	});
+
+	test('should apply the duplicateKeys option', () => {
+		assert.strictEqual(new BencodeView('d1:ai1e1:ai2ee', { duplicateKeys: 'first' }).get('a')?.value, 1);
+		expect(() => new BencodeView('d1:ai1e1:ai2ee', { duplicateKeys: 'error' })).toThrow('duplicate dictionary key \'a\' at position 7');
+	});
+
+	test('should skip the keys decode() ignores with unsafeKeys: ignore', () => {
+		const data = 'd1:ai1e9:__proto__d1:xi1ee11:constructori2e1:bi3ee';
+		const view = new BencodeView(data, { unsafeKeys: 'ignore' });
+
+		assert.deepStrictEqual([ ...view.keys() ], Object.keys(decode(data, { unsafeKeys: 'ignore' }) as object));
+		assert.deepStrictEqual([ ...view.keys() ], [ 'a', 'b' ]);
+		assert.deepStrictEqual([ ...view ].map(child => child.value), [ 1, 3 ]);
+		assert.strictEqual(view.length, 2);
+		assert.strictEqual(view.get('__proto__'), undefined);
+		assert.strictEqual(view.has('constructor'), false);
+		assert.strictEqual(view.get('b')?.value, 3);
+
+		const defined = new BencodeView(data);
+
+		assert.deepStrictEqual([ ...defined.keys() ], Object.keys(decode(data) as object));
+		assert.strictEqual(new BencodeView(data, { unsafeKeys: 'ignore', dictionaryType: 'map' }).get('__proto__')?.type, 'dictionary');
+	});
+
+	test('should iterate over lists and dictionaries', () => {
+		const view = new BencodeView(torrent, { stringify: true });
+		const files = view.get('info')!.get('files')!;
+
+		assert.deepStrictEqual([ ...files ].map(file => file.get('length')?.value), [ 1, 2 ]);
+		assert.deepStrictEqual([ ...view.keys() ], [ 'announce', 'info' ]);
+		assert.deepStrictEqual([ ...view.values() ].map(value => value.type), [ 'string', 'dictionary' ]);
+		assert.deepStrictEqual([ ...view.entries() ].map(([ key, value ]) => [ key, value.type ]), [[ 'announce', 'string' ], [ 'info', 'dictionary' ]]);
+		assert.strictEqual(view.get('info')?.length, 2);
+	});
+
+	test('should have no children for integers and strings', () => {
+		const view = new BencodeView('4:spam');
+
+		assert.strictEqual(view.length, 0);
+		assert.deepStrictEqual([ ...view ], []);
+		assert.deepStrictEqual([ ...view.entries() ], []);
+		assert.deepStrictEqual([ ...new BencodeView('li1ee').keys() ], []);
+	});
+
+	test('should index large documents', () => {
+		const items = Array.from({ length: 3000 }, (_, i) => `i${i}e`).join('');
+		const view = new BencodeView(`l${items}e`);
+
+		assert.strictEqual(view.length, 3000);
+		assert.strictEqual(view.get(2999)?.value, 2999);
+	});
+
+	test('should index deep nesting', () => {
+		const view = new BencodeView('l'.repeat(100000) + 'e'.repeat(100000));
+
+		assert.deepStrictEqual(view.get(0)?.get(0)?.raw, Bytes.fromString('l'.repeat(99998) + 'e'.repeat(99998)));
+	});
+
+	test('should throw BencodeDecodeError for invalid data', () => {
+		try {
+			new BencodeView('d1:ali1ee');
+		}
+		catch (error) {
+			expect(error).toBeInstanceOf(BencodeDecodeError);
+			expect((error as BencodeDecodeError).code).toBe(BencodeErrorCode.UNEXPECTED_END);
+			expect((error as BencodeDecodeError).position).toBe(9);
+		}
+
+		expect(() => new BencodeView('li01ee')).toThrow('leading zeros are not allowed');
+		expect(() => new BencodeView('di1ei2ee')).toThrow('dictionary key must be a string at position 1');
+		expect(() => new BencodeView('llee', { maxDepth: 1 })).toThrow('Nesting depth 2 exceeds maximum 1');
+		expect(() => new BencodeView('d9:__proto__i1ee', { unsafeKeys: 'error' })).toThrow('unsafe dictionary key \'__proto__\' at position 1');
+	});
+
+	test('should throw BencodeDecodeError with TRAILING_DATA code in strict mode', () => {
+		try {
+			new BencodeView('i1ei2e', { strict: true });
+		}
+		catch (error) {
+			expect(error).toBeInstanceOf(BencodeDecodeError);
+			expect((error as BencodeDecodeError).code).toBe(BencodeErrorCode.TRAILING_DATA);
+		}
+
+		assert.strictEqual(new BencodeView('i1ei2e').value, 1);
+	});
+
+	test('should throw BencodeDecodeError with MAX_TOTAL_BYTES_EXCEEDED code for data over 4 GiB', () => {
+		// a real 4 GiB buffer is too large for the test, so only its length is faked
+		const data = Object.defineProperty(Bytes.fromString('i1e'), 'length', { value: 2 ** 32 });
+
+		try {
+			new BencodeView(data);
+		}
+		catch (error) {
+			expect(error).toBeInstanceOf(BencodeDecodeError);
+			expect((error as BencodeDecodeError).code).toBe(BencodeErrorCode.MAX_TOTAL_BYTES_EXCEEDED);
+		}
+
+		expect(() => new BencodeView(data)).toThrow('Input size 4294967296 exceeds maximum 4294967295');
+	});
+});